@@ -24,7 +24,7 @@ export class PreviewInAnkiContextMenu extends Addon {
     private async previewBlockNotesInAnki(...blocks) {
         try {
             await AnkiConnect.requestPermission();
-            await AnkiConnect.guiBrowse("uuid:" + blocks[0].uuid);
+            await AnkiConnect.guiBrowse(`"uuid:${blocks[0].uuid}" OR "tag:*::${blocks[0].uuid}-*"`);
         } catch (e) {
             handleAnkiError(e.toString());
         }
@@ -1,51 +1,235 @@
 import _ from "lodash";
 import {ANKI_CLOZE_REGEXP} from "../constants";
+import type {AnkiConnectSettings} from "../settings";
 
 const ANKI_PORT = 8765;
+export const DEFAULT_ANKI_CONNECT_URL = `http://127.0.0.1:${ANKI_PORT}`;
+
+// Actions used by the plugin (checked by testConnection)
+const REQUIRED_ACTIONS = [
+    "multi",
+    "requestPermission",
+    "deckNames",
+    "createDeck",
+    "modelNames",
+    "createModel",
+    "updateModelTemplates",
+    "modelFieldNames",
+    "findNotes",
+    "notesInfo",
+    "cardsInfo",
+    "getDecks",
+    "getReviewsOfCards",
+    "addNote",
+    "updateNote",
+    "updateNoteFields",
+    "updateNoteModel",
+    "changeDeck",
+    "addTags",
+    "removeTags",
+    "suspend",
+    "unsuspend",
+    "deleteNotes",
+    "storeMediaFile",
+    "retrieveMediaFile",
+    "deleteMediaFile",
+    "getMediaFilesNames",
+    "reloadCollection",
+    "guiBrowse",
+];
+
+// Actions that may be applied twice if they are sent again after reaching anki
+const NON_IDEMPOTENT_ACTIONS = ["addNote", "addNotes", "createModel"];
+
+export type TransportOptions = {
+    url: string;
+    apiKey: string; // Sent as key when AnkiConnect has apiKey configured
+    timeout: number; // in ms (0 for no timeout)
+    retries: number; // Number of retries on connection errors
+    retryDelay: number; // in ms, doubled after every retry
+    chunkSize: number; // Max number of actions sent in a single multi request
+};
+
+const DEFAULT_TRANSPORT_OPTIONS: TransportOptions = {
+    url: DEFAULT_ANKI_CONNECT_URL,
+    apiKey: "",
+    timeout: 60000,
+    retries: 3,
+    retryDelay: 500,
+    chunkSize: 100,
+};
+
+// Transport options from the plugin settings
+export function getTransportOptions(): TransportOptions {
+    const settings: Partial<AnkiConnectSettings> =
+        typeof logseq !== "undefined" && logseq.settings != null
+            ? (logseq.settings as Partial<AnkiConnectSettings>)
+            : {};
+    const getNumber = (value: number | string, defaultValue: number): number =>
+        value != null && value !== "" && !isNaN(Number(value)) ? Number(value) : defaultValue;
+    let url = (settings.ankiConnectURL || "").trim().replace(/\/+$/, "");
+    if (url != "" && !/^https?:\/\//i.test(url)) url = `http://${url}`;
+    return {
+        ...DEFAULT_TRANSPORT_OPTIONS,
+        url: url || DEFAULT_TRANSPORT_OPTIONS.url,
+        apiKey: (settings.ankiConnectAPIKey || "").trim(),
+        timeout:
+            getNumber(
+                settings.ankiConnectTimeoutSeconds,
+                DEFAULT_TRANSPORT_OPTIONS.timeout / 1000,
+            ) * 1000,
+        retries: getNumber(settings.ankiConnectRetries, DEFAULT_TRANSPORT_OPTIONS.retries),
+        chunkSize: getNumber(
+            settings.ankiConnectChunkSize,
+            DEFAULT_TRANSPORT_OPTIONS.chunkSize,
+        ),
+    };
+}
 
 // Read https://github.com/FooSoft/anki-connect#supported-actions
 
-export function invoke(action: string, params = {}): any {
-    return new Promise((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        xhr.addEventListener("error", () => reject("failed to issue request"));
-        xhr.addEventListener("load", () => {
-            try {
-                const response = JSON.parse(xhr.responseText);
-                if (Object.getOwnPropertyNames(response).length != 2) {
-                    throw "response has an unexpected number of fields";
-                }
-                if (!response.hasOwnProperty("error")) {
-                    throw "response is missing required error field";
-                }
-                if (!response.hasOwnProperty("result")) {
-                    throw "response is missing required result field";
-                }
-                if (response.error) {
-                    throw response.error;
-                }
-                resolve(response.result);
-            } catch (e) {
-                reject(e);
-            }
+async function sendRequest(action: string, params, opts: TransportOptions): Promise<any> {
+    const controller = new AbortController();
+    const timer = opts.timeout > 0 ? setTimeout(() => controller.abort(), opts.timeout) : null;
+    let responseText: string;
+    try {
+        const response = await fetch(opts.url, {
+            method: "POST",
+            headers: {"Content-Type": "application/json;charset=UTF-8"},
+            body: JSON.stringify({
+                action,
+                version: 6,
+                ...(opts.apiKey ? {key: opts.apiKey} : {}),
+                params,
+            }),
+            signal: controller.signal,
         });
+        responseText = await response.text();
+    } catch (e) {
+        throw controller.signal.aborted ? "request timed out" : "failed to issue request";
+    } finally {
+        clearTimeout(timer);
+    }
+    const response = JSON.parse(responseText);
+    if (Object.getOwnPropertyNames(response).length != 2) {
+        throw "response has an unexpected number of fields";
+    }
+    if (!response.hasOwnProperty("error")) {
+        throw "response is missing required error field";
+    }
+    if (!response.hasOwnProperty("result")) {
+        throw "response is missing required result field";
+    }
+    if (response.error) {
+        throw response.error;
+    }
+    return response.result;
+}
 
-        xhr.open("POST", "http://127.0.0.1:" + ANKI_PORT.toString());
-        xhr.setRequestHeader("Content-Type", "application/json;charset=UTF-8");
-        xhr.send(JSON.stringify({action, version: 6, params}));
-    });
+const isIdempotent = (action: string, params): boolean =>
+    action == "multi"
+        ? _.get(params, "actions", []).every((subAction) =>
+              isIdempotent(subAction.action, subAction.params),
+          )
+        : !NON_IDEMPOTENT_ACTIONS.includes(action);
+
+/**
+ * Requests that could not reach anki are retried with backoff. Errors returned by anki aren't.
+ * Requests with non idempotent actions (e.g. addNote) aren't retried as anki may have run them
+ * before the connection failed.
+ */
+export async function invoke(
+    action: string,
+    params = {},
+    opts: Partial<TransportOptions> = {},
+): Promise<any> {
+    const transportOptions = {...getTransportOptions(), ...opts};
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await sendRequest(action, params, transportOptions);
+        } catch (e) {
+            if (
+                e != "failed to issue request" ||
+                attempt >= transportOptions.retries ||
+                !isIdempotent(action, params)
+            )
+                throw e;
+            await new Promise((resolve) =>
+                setTimeout(resolve, transportOptions.retryDelay * 2 ** attempt),
+            );
+        }
+    }
+}
+
+/**
+ * Sends the actions using multi requests of at most chunkSize actions. The results are in the order of
+ * the actions. When a chunk fails, the results of its actions are {error} so that the results of the
+ * other chunks are not lost.
+ * Throws only if every chunk failed.
+ */
+export async function invokeMulti(
+    actions: Array<any>,
+    opts: Partial<TransportOptions> = {},
+): Promise<Array<any>> {
+    const chunkSize = Math.max(1, opts.chunkSize || getTransportOptions().chunkSize);
+    const results = [];
+    let lastError = null,
+        failedChunks = 0;
+    const chunks = _.chunk(actions, chunkSize);
+    for (const chunk of chunks) {
+        try {
+            const chunkResults = await invoke("multi", {actions: chunk}, opts);
+            results.push(...chunk.map((action, i) => chunkResults[i]));
+        } catch (e) {
+            console.error(`Failed to send ${chunk.length} actions to anki:`, e);
+            results.push(...chunk.map(() => ({error: String(e)})));
+            lastError = e;
+            failedChunks++;
+        }
+    }
+    if (chunks.length > 0 && failedChunks == chunks.length) throw lastError;
+    return results;
 }
 
 export async function requestPermission(): Promise<any> {
-    const r = await invoke("requestPermission", {});
+    // No timeout as anki waits for the user to allow the access
+    const r = await invoke("requestPermission", {}, {timeout: 0});
     if (r.permission != "granted") {
         return new Promise((resolve, reject) => {
             throw "Permission to access anki was denied";
         });
     }
+    if (r.requireApiKey && !getTransportOptions().apiKey)
+        throw "AnkiConnect requires an api key";
     return r;
 }
 
+// Media files can be stored by path only when anki runs on the same machine as logseq
+export function isAnkiConnectLocal(): boolean {
+    try {
+        const hostname = new URL(getTransportOptions().url).hostname;
+        return ["127.0.0.1", "localhost", "[::1]", "::1"].includes(hostname);
+    } catch (e) {
+        return false;
+    }
+}
+
+// Returns the AnkiConnect version and the actions required by the plugin that are not available
+export async function testConnection(): Promise<{version: number; missingActions: string[]}> {
+    await requestPermission();
+    const version = await invoke("version", {});
+    let availableActions: string[] = null;
+    try {
+        availableActions = (await invoke("apiReflect", {scopes: ["actions"], actions: null}))
+            .actions;
+    } catch (e) {} // apiReflect is not available in old versions of AnkiConnect
+    return {
+        version,
+        missingActions:
+            availableActions != null ? _.difference(REQUIRED_ACTIONS, availableActions) : [],
+    };
+}
+
 export async function createDeck(deckName: string): Promise<any> {
     return await invoke("createDeck", {deck: deckName});
 }
@@ -125,11 +309,15 @@ export async function createBackup(): Promise<any> {
             console.log(
                 `Created backup with name LogseqAnkiSync-Backup-${timestamp}_${deck}.apkg`,
             );
-            await invoke("exportPackage", {
-                deck: deck,
-                path: `../LogseqAnkiSync-Backup-${timestamp}_${deck}.apkg`,
-                includeSched: true,
-            });
+            await invoke(
+                "exportPackage",
+                {
+                    deck: deck,
+                    path: `../LogseqAnkiSync-Backup-${timestamp}_${deck}.apkg`,
+                    includeSched: true,
+                },
+                {timeout: 0},
+            );
         }
     }
     return;
@@ -189,7 +377,7 @@ export async function createModel(
             action: "retrieveMediaFile",
             params: {filename},
         });
-    (await invoke("multi", {actions: getcurrentTemplateFilesActions})).forEach((data, i) => {
+    (await invokeMulti(getcurrentTemplateFilesActions)).forEach((data, i) => {
         currentTemplateFiles[Object.keys(template_files)[i]] = data;
     });
     for (const filename in template_files) {
@@ -200,9 +388,7 @@ export async function createModel(
                 params: {filename, data},
             });
     }
-    const updateTemplateFiles = await invoke("multi", {
-        actions: storeTemplateFilesActions,
-    });
+    const updateTemplateFiles = await invokeMulti(storeTemplateFilesActions);
     console.log("Updated Template Files:", updateTemplateFiles);
 }
 
@@ -214,6 +400,7 @@ export async function storeMediaFileByContent(filename: string, content: string)
 }
 
 export async function storeMediaFileByPath(filename: string, path: string): Promise<any> {
+    if (!isAnkiConnectLocal()) throw `Cannot store ${filename} by path in a remote anki.`;
     return await invoke("storeMediaFile", {
         filename: filename,
         path: path,
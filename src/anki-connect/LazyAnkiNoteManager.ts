@@ -5,12 +5,14 @@
 import * as AnkiConnect from "./AnkiConnect";
 import _ from "lodash";
 import "@logseq/libs";
-import {ANKI_CLOZE_REGEXP} from "../constants";
+import {ANKI_CLOZE_REGEXP, ANKI_ORPHAN_TAG} from "../constants";
+import {SyncJournal} from "./SyncJournal";
 
 export class LazyAnkiNoteManager {
     public modelName: string;
     public noteInfoMap: Map<any, any> = new Map();
     public mediaInfo: Set<string> = new Set();
+    public journal: SyncJournal = null; // When set, every action sent to anki is recorded in it
     private addNoteActionsQueue1: Array<any> = [];
     private addNoteActionsQueue2: Array<any> = [];
     private addNoteUuidTypeQueue1: Array<any> = [];
@@ -25,13 +27,16 @@ export class LazyAnkiNoteManager {
         this.modelName = modelName;
     }
 
-    async init() {
-        await this.buildNoteInfoMap(this.modelName);
+    // scopeQuery is an anki search restricting the fetched notes (eg: to the notes of a page)
+    async init(scopeQuery: string = null) {
+        await this.buildNoteInfoMap(this.modelName, scopeQuery);
         await this.buildMediaInfo();
     }
 
-    async buildNoteInfoMap(modelName: string): Promise<any> {
-        const result = await AnkiConnect.query(`"note:${modelName}"`);
+    async buildNoteInfoMap(modelName: string, scopeQuery: string = null): Promise<any> {
+        let query = `"note:${modelName}" OR "tag:${this.getUuidTypeTag("*")}"`;
+        if (scopeQuery != null) query = `(${query}) (${scopeQuery})`;
+        const result = await AnkiConnect.query(query);
         const notes = await AnkiConnect.invoke("notesInfo", {notes: result});
         const cards = [];
         for (const note of notes) {
@@ -47,7 +52,7 @@ export class LazyAnkiNoteManager {
                     break;
                 }
             }
-            this.noteInfoMap.set(note.noteId, {...note, deck});
+            this.noteInfoMap.set(note.noteId, {...note, deck, uuidType: this.getUuidType(note)});
         }
         if (logseq.settings.debug.includes("LazyAnkiNoteManager.ts"))
             console.debug(this.noteInfoMap);
@@ -60,12 +65,35 @@ export class LazyAnkiNoteManager {
             console.debug(this.mediaInfo);
     }
 
-    addNote(deckName: string, modelName: string, fields, tags: string[]): void {
+    // Notes of other note types (anki-model property) don't have the uuid-type field.
+    // They are tracked using a <modelName>::<uuid-type> tag instead.
+    getUuidTypeTag(uuidType: string): string {
+        return `${this.modelName}::${uuidType}`;
+    }
+
+    getUuidType(noteinfo): string {
+        const uuidTypeField = _.get(noteinfo, "fields['uuid-type'].value", null);
+        if (noteinfo.modelName == this.modelName || uuidTypeField != null) return uuidTypeField;
+        const uuidTypeTagPrefix = this.getUuidTypeTag("").toLowerCase();
+        const uuidTypeTag = _.find(noteinfo.tags, (tag: string) =>
+            tag.toLowerCase().startsWith(uuidTypeTagPrefix),
+        );
+        return uuidTypeTag ? uuidTypeTag.substring(uuidTypeTagPrefix.length) : null;
+    }
+
+    addNote(
+        deckName: string,
+        modelName: string,
+        fields,
+        tags: string[],
+        uuidType: string = fields["uuid-type"],
+    ): void {
+        if (modelName != this.modelName) tags = [...tags, this.getUuidTypeTag(uuidType)];
         this.addNoteActionsQueue1.push({
             action: "createDeck",
             params: {deck: deckName},
         });
-        this.addNoteUuidTypeQueue1.push(fields["uuid-type"]);
+        this.addNoteUuidTypeQueue1.push(uuidType);
         const cloze_id = _.get(ANKI_CLOZE_REGEXP.exec(fields["Text"]), 2) || 1;
         this.addNoteActionsQueue1.push({
             action: "addNote",
@@ -73,16 +101,16 @@ export class LazyAnkiNoteManager {
                 note: {
                     modelName: modelName,
                     deckName: deckName,
-                    fields: {
-                        ...fields,
-                        Text: `{{c${cloze_id}:: placeholder}}`,
-                    },
+                    fields:
+                        modelName == this.modelName
+                            ? {...fields, Text: `{{c${cloze_id}:: placeholder}}`}
+                            : fields,
                     tags: tags,
                     options: {allowDuplicate: true},
                 },
             },
         });
-        this.addNoteUuidTypeQueue1.push(fields["uuid-type"]);
+        this.addNoteUuidTypeQueue1.push(uuidType);
         this.addNoteActionsQueue2.push({
             action: "updateNoteFields",
             params: {
@@ -93,7 +121,7 @@ export class LazyAnkiNoteManager {
                 },
             },
         });
-        this.addNoteUuidTypeQueue2.push(fields["uuid-type"]);
+        this.addNoteUuidTypeQueue2.push(uuidType);
     }
 
     updateNote(
@@ -102,15 +130,46 @@ export class LazyAnkiNoteManager {
         modelName: string,
         fields,
         tags: string[],
+        uuidType: string = fields["uuid-type"],
     ): void {
         const noteinfo = this.noteInfoMap.get(ankiId);
         const cards = noteinfo.cards;
+        if (modelName != this.modelName) tags = [...tags, this.getUuidTypeTag(uuidType)];
         if (deckName != noteinfo.deck) {
             this.updateNoteActionsQueue.push({
                 action: "changeDeck",
                 params: {cards: cards, deck: deckName},
             });
-            this.updateNoteUuidTypeQueue.push(fields["uuid-type"]);
+            this.updateNoteUuidTypeQueue.push(uuidType);
+        }
+
+        // The note was orphaned & suspended earlier, but its block is back
+        if (noteinfo.tags.includes(`${ANKI_ORPHAN_TAG}::suspended`)) {
+            this.updateNoteActionsQueue.push({
+                action: "unsuspend",
+                params: {cards: cards},
+            });
+            this.updateNoteUuidTypeQueue.push(uuidType);
+        }
+
+        // Move the note to the new note type (keeps the note id and review history)
+        if (modelName != noteinfo.modelName) {
+            const specialTags = noteinfo.tags.filter((tag) =>
+                ["leech", "marked"].includes(tag.toLowerCase()),
+            );
+            this.updateNoteActionsQueue.push({
+                action: "updateNoteModel",
+                params: {
+                    note: {
+                        id: ankiId,
+                        modelName: modelName,
+                        fields: fields,
+                        tags: _.uniq([...tags, ...specialTags]),
+                    },
+                },
+            });
+            this.updateNoteUuidTypeQueue.push(uuidType);
+            return;
         }
 
         // Remove all old unneeded tags and add new ones
@@ -123,24 +182,24 @@ export class LazyAnkiNoteManager {
                 action: "removeTags",
                 params: {notes: [ankiId], tags: tag},
             });
-            this.updateNoteUuidTypeQueue.push(fields["uuid-type"]);
+            this.updateNoteUuidTypeQueue.push(uuidType);
         }
         for (const tag of to_add_tags) {
             this.updateNoteActionsQueue.push({
                 action: "addTags",
                 params: {notes: [ankiId], tags: tag},
             });
-            this.updateNoteUuidTypeQueue.push(fields["uuid-type"]);
+            this.updateNoteUuidTypeQueue.push(uuidType);
         }
 
         let needsFieldUpdate = false;
         for (const key in fields) {
-            if (noteinfo.fields[key].value != fields[key]) {
+            if (_.get(noteinfo, ["fields", key, "value"]) != fields[key]) {
                 if (logseq.settings.debug.includes("LazyAnkiNoteManager.ts"))
                     console.log(
                         "Difference found:",
                         key,
-                        noteinfo.fields[key].value,
+                        _.get(noteinfo, ["fields", key, "value"]),
                         fields[key],
                     );
                 needsFieldUpdate = true;
@@ -159,7 +218,7 @@ export class LazyAnkiNoteManager {
                     },
                 },
             });
-            this.updateNoteUuidTypeQueue.push(fields["uuid-type"]);
+            this.updateNoteUuidTypeQueue.push(uuidType);
         }
     }
 
@@ -171,6 +230,32 @@ export class LazyAnkiNoteManager {
         this.deleteNoteAnkiIdQueue.push(ankiId);
     }
 
+    // Soft deletes the note i.e. keeps it (and its review history) in anki but tags it as orphaned.
+    // The orphan tags are removed by updateNote if the block comes back.
+    orphanNote(ankiId: number, handling: "suspend" | "tag" | "quarantine", quarantineDeck: string): void {
+        const cards = this.noteInfoMap.get(ankiId).cards;
+        const orphanTags = [ANKI_ORPHAN_TAG, `${ANKI_ORPHAN_TAG}::${new Date().toISOString().slice(0, 10)}`];
+        if (handling == "suspend") {
+            this.deleteNoteActionsQueue.push({
+                action: "suspend",
+                params: {cards: cards},
+            });
+            this.deleteNoteAnkiIdQueue.push(ankiId);
+            orphanTags.push(`${ANKI_ORPHAN_TAG}::suspended`);
+        } else if (handling == "quarantine") {
+            this.deleteNoteActionsQueue.push({
+                action: "changeDeck",
+                params: {cards: cards, deck: quarantineDeck},
+            });
+            this.deleteNoteAnkiIdQueue.push(ankiId);
+        }
+        this.deleteNoteActionsQueue.push({
+            action: "addTags",
+            params: {notes: [ankiId], tags: orphanTags.join(" ")},
+        });
+        this.deleteNoteAnkiIdQueue.push(ankiId);
+    }
+
     storeAsset(filename: string, path: string): void {
         this.storeAssetActionsQueue.push({
             action: "storeMediaFile",
@@ -178,6 +263,10 @@ export class LazyAnkiNoteManager {
         });
     }
 
+    private recordInJournal(actions: Array<any>): void {
+        if (this.journal) this.journal.record(actions, this.noteInfoMap, this.mediaInfo);
+    }
+
     async execute(operation: string): Promise<any> {
         let result = [];
         switch (operation) {
@@ -185,9 +274,8 @@ export class LazyAnkiNoteManager {
                 if (logseq.settings.debug.includes("LazyAnkiNoteManager.ts"))
                     console.log(this.addNoteUuidTypeQueue2);
                 // Create notes with dummy content to avoid error
-                const result1 = await AnkiConnect.invoke("multi", {
-                    actions: this.addNoteActionsQueue1,
-                });
+                this.recordInJournal(this.addNoteActionsQueue1);
+                const result1 = await AnkiConnect.invokeMulti(this.addNoteActionsQueue1);
                 for (let i = 0; i < result1.length; i++) {
                     if (result1[i] == null) result1[i] = {};
                     _.extend(result1[i], {
@@ -200,12 +288,16 @@ export class LazyAnkiNoteManager {
                 for (const uuidType of this.addNoteUuidTypeQueue2) {
                     getankiIdActionsQueue.push({
                         action: "findNotes",
-                        params: {query: `uuid-type:${uuidType}`},
+                        params: {
+                            query: `"uuid-type:${uuidType}" OR "tag:${this.getUuidTypeTag(
+                                uuidType,
+                            )}"`,
+                        },
                     });
                 }
-                const ankiIdActionsQueueRes = await AnkiConnect.invoke("multi", {
-                    actions: getankiIdActionsQueue,
-                });
+                const ankiIdActionsQueueRes = await AnkiConnect.invokeMulti(
+                    getankiIdActionsQueue,
+                );
                 const ankiId = [];
                 const ankiIdUUIDTypePairs = [];
                 for (let i = 0; i < ankiIdActionsQueueRes.length; i++) {
@@ -216,16 +308,16 @@ export class LazyAnkiNoteManager {
                         ankiId: ankiIdActionsQueueRes[i][0],
                     });
                 }
+                if (this.journal) this.journal.recordCreated(ankiId);
                 // Update note fields
                 for (let i = 0; i < this.addNoteActionsQueue2.length; i++) {
-                    if (ankiId[i] == null) this.addNoteActionsQueue2[i] = {};
-                    this.addNoteActionsQueue2[i].params.note.id = ankiId[i];
+                    if (ankiId[i] == null) this.addNoteActionsQueue2[i] = {}; // Fails in anki
+                    else this.addNoteActionsQueue2[i].params.note.id = ankiId[i];
                 }
-                const result2 = await AnkiConnect.invoke("multi", {
-                    actions: this.addNoteActionsQueue2,
-                });
+                this.recordInJournal(this.addNoteActionsQueue2);
+                const result2 = await AnkiConnect.invokeMulti(this.addNoteActionsQueue2);
                 for (let i = 0; i < result2.length; i++) {
-                    if (result2[i] == null) result1[i] = {};
+                    if (result2[i] == null) result2[i] = {};
                     _.extend(result2[i], {
                         "uuid-type": this.addNoteUuidTypeQueue2[i],
                     });
@@ -241,9 +333,8 @@ export class LazyAnkiNoteManager {
             case "updateNotes": // Returns resut of sub-operations
                 if (logseq.settings.debug.includes("LazyAnkiNoteManager.ts"))
                     console.log(this.updateNoteActionsQueue);
-                result = await AnkiConnect.invoke("multi", {
-                    actions: this.updateNoteActionsQueue,
-                });
+                this.recordInJournal(this.updateNoteActionsQueue);
+                result = await AnkiConnect.invokeMulti(this.updateNoteActionsQueue);
                 if (logseq.settings.debug.includes("LazyAnkiNoteManager.ts"))
                     console.log(result);
                 for (let i = 0; i < result.length; i++) {
@@ -258,9 +349,8 @@ export class LazyAnkiNoteManager {
             case "deleteNotes": // Returns resut of sub-operations
                 if (logseq.settings.debug.includes("LazyAnkiNoteManager.ts"))
                     console.log(this.deleteNoteAnkiIdQueue);
-                result = await AnkiConnect.invoke("multi", {
-                    actions: this.deleteNoteActionsQueue,
-                });
+                this.recordInJournal(this.deleteNoteActionsQueue);
+                result = await AnkiConnect.invokeMulti(this.deleteNoteActionsQueue);
                 for (let i = 0; i < result.length; i++) {
                     if (result[i] == null) result[i] = {};
                     _.extend(result[i], {
@@ -308,9 +398,9 @@ export class LazyAnkiNoteManager {
                             });
                             return (reader.result as string).replace(/^data:.+;base64,/, "");
                         };
-                        const ankiAssetContent = await AnkiConnect.invoke("multi", {
-                            actions: retriveAnkiAssetContentActionQueue,
-                        });
+                        const ankiAssetContent = await AnkiConnect.invokeMulti(
+                            retriveAnkiAssetContentActionQueue,
+                        );
                         batchStoreAssetActionsQueue = await Promise.all(
                             batchStoreAssetActionsQueue.map(async (action, idx) => {
                                 if (action.params.path != null) {
@@ -328,6 +418,10 @@ export class LazyAnkiNoteManager {
                                         delete action.params.path;
                                         action.params.data = fimg;
                                         return action;
+                                    } else if (!AnkiConnect.isAnkiConnectLocal()) {
+                                        // A remote anki cannot read the file from its path
+                                        console.warn("Failed to read", action.params.path);
+                                        return null;
                                     } else return action;
                                 }
                                 return action;
@@ -340,11 +434,10 @@ export class LazyAnkiNoteManager {
                             ...finalStoreAssetActionsQueue,
                             ...batchStoreAssetActionsQueue,
                         ];
+                        this.recordInJournal(batchStoreAssetActionsQueue);
                         result = [
                             ...result,
-                            ...(await AnkiConnect.invoke("multi", {
-                                actions: batchStoreAssetActionsQueue,
-                            })),
+                            ...(await AnkiConnect.invokeMulti(batchStoreAssetActionsQueue)),
                         ];
                     }
                     this.storeAssetActionsQueue = [];
@@ -0,0 +1,168 @@
+import * as AnkiConnect from "./AnkiConnect";
+import _ from "lodash";
+import "@logseq/libs";
+
+type NoteSnapshot = {
+    modelName: string;
+    deck: string;
+    fields: {[field: string]: string};
+    tags: string[];
+};
+
+/**
+ * Records the actions LazyAnkiNoteManager sends to anki during a sync along with the previous state
+ * of the notes they touch. The journal of the last sync is saved in plugin storage so that the sync can be undone.
+ */
+export class SyncJournal {
+    public modelName: string;
+    public timestamp: number;
+    public actions: Array<any> = [];
+    public createdAnkiIds: Array<number> = [];
+    public snapshots: {[ankiId: string]: NoteSnapshot} = {};
+    public newMediaFiles: Array<string> = []; // Media files that did not exist in anki before the sync
+
+    constructor(modelName: string, timestamp: number = Date.now()) {
+        this.modelName = modelName;
+        this.timestamp = timestamp;
+    }
+
+    private static getStorageKey(modelName: string): string {
+        return `sync-journal-${modelName}`;
+    }
+
+    record(actions: Array<any>, noteInfoMap: Map<any, any>, mediaInfo: Set<string>): void {
+        for (const action of actions) {
+            if (action == null || action.action == null) continue;
+            if (action.action == "storeMediaFile") {
+                const filename = action.params.filename;
+                this.actions.push({action: action.action, params: {filename}}); // Don't store the media data
+                if (!mediaInfo.has(filename)) this.newMediaFiles.push(filename);
+                continue;
+            }
+            this.actions.push(action);
+            for (const ankiId of this.getAffectedAnkiIds(action, noteInfoMap)) {
+                if (this.snapshots[ankiId] != null) continue;
+                const noteinfo = noteInfoMap.get(ankiId);
+                this.snapshots[ankiId] = {
+                    modelName: noteinfo.modelName,
+                    deck: noteinfo.deck,
+                    fields: _.mapValues(noteinfo.fields, (field) => field.value),
+                    tags: noteinfo.tags,
+                };
+            }
+        }
+    }
+
+    recordCreated(ankiIds: Array<number>): void {
+        this.createdAnkiIds.push(...ankiIds.filter((ankiId) => ankiId != null));
+    }
+
+    isEmpty(): boolean {
+        return this.actions.length == 0;
+    }
+
+    private getAffectedAnkiIds(action, noteInfoMap: Map<any, any>): Array<number> {
+        const ankiIds = [..._.get(action, "params.notes", []), _.get(action, "params.note.id")];
+        const cards = _.get(action, "params.cards", []);
+        if (cards.length > 0) {
+            for (const [ankiId, noteinfo] of noteInfoMap) {
+                if (_.intersection(noteinfo.cards, cards).length > 0) ankiIds.push(ankiId);
+            }
+        }
+        return _.uniq(ankiIds.filter((ankiId) => noteInfoMap.has(ankiId)));
+    }
+
+    async save(): Promise<void> {
+        await logseq.FileStorage.setItem(
+            SyncJournal.getStorageKey(this.modelName),
+            JSON.stringify(this),
+        );
+    }
+
+    static async load(modelName: string): Promise<SyncJournal> {
+        const key = SyncJournal.getStorageKey(modelName);
+        if (!(await logseq.FileStorage.hasItem(key))) return null;
+        const journalData = JSON.parse(await logseq.FileStorage.getItem(key));
+        if (journalData == null) return null;
+        return Object.assign(new SyncJournal(modelName), journalData);
+    }
+
+    static async clear(modelName: string): Promise<void> {
+        await logseq.FileStorage.removeItem(SyncJournal.getStorageKey(modelName));
+    }
+
+    /**
+     * Replays the inverse of the recorded actions.
+     * Created notes are deleted, updated notes get back their old fields, deck and tags, and
+     * deleted notes are re-created (their review history can't be restored).
+     * Returns the result of the sub-operations.
+     */
+    async undo(): Promise<Array<any>> {
+        const undoActions = [];
+        if (this.createdAnkiIds.length > 0)
+            undoActions.push({action: "deleteNotes", params: {notes: this.createdAnkiIds}});
+
+        const snapshotAnkiIds = Object.keys(this.snapshots).map((ankiId) => parseInt(ankiId));
+        const existingNotes = await AnkiConnect.invoke("notesInfo", {notes: snapshotAnkiIds});
+        for (let i = 0; i < snapshotAnkiIds.length; i++) {
+            const snapshot = this.snapshots[snapshotAnkiIds[i]];
+            const existingNote = existingNotes[i];
+            if (existingNote == null || existingNote.noteId == null) {
+                undoActions.push({
+                    action: "addNote",
+                    params: {
+                        note: {
+                            modelName: snapshot.modelName,
+                            deckName: snapshot.deck,
+                            fields: snapshot.fields,
+                            tags: snapshot.tags,
+                            options: {allowDuplicate: true},
+                        },
+                    },
+                });
+                continue;
+            }
+            if (existingNote.modelName != snapshot.modelName) {
+                undoActions.push({
+                    action: "updateNoteModel",
+                    params: {
+                        note: {
+                            id: existingNote.noteId,
+                            modelName: snapshot.modelName,
+                            fields: snapshot.fields,
+                            tags: snapshot.tags,
+                        },
+                    },
+                });
+            } else {
+                undoActions.push({
+                    action: "updateNote",
+                    params: {
+                        note: {
+                            id: existingNote.noteId,
+                            fields: snapshot.fields,
+                            tags: snapshot.tags,
+                        },
+                    },
+                });
+            }
+            undoActions.push({
+                action: "changeDeck",
+                params: {cards: existingNote.cards, deck: snapshot.deck},
+            });
+        }
+
+        // Suspending / unsuspending cards isn't part of the snapshot
+        for (const action of [...this.actions].reverse()) {
+            if (action.action == "suspend")
+                undoActions.push({action: "unsuspend", params: action.params});
+            else if (action.action == "unsuspend")
+                undoActions.push({action: "suspend", params: action.params});
+        }
+
+        for (const filename of this.newMediaFiles)
+            undoActions.push({action: "deleteMediaFile", params: {filename}});
+
+        return await AnkiConnect.invokeMulti(undoActions);
+    }
+}
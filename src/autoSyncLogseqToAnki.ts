@@ -0,0 +1,113 @@
+/**
+ * This service syncs the notes whose dependencies changed to anki in the background.
+ * Changed blocks (and blocks depending on them as per blockAndPageHashCache) are queued and synced
+ * using a scoped sync once the user stops editing for autoSyncDebounceSeconds.
+ * Deleted blocks are queued by uuid so that the scoped sync deletes their anki notes.
+ */
+import {LogseqProxy} from "./logseq/LogseqProxy";
+import * as blockAndPageHashCache from "./logseq/blockAndPageHashCache";
+import getUUIDFromBlock from "./logseq/getUUIDFromBlock";
+import {LogseqToAnkiSync} from "./syncLogseqToAnki";
+import {ANKI_REVIEW_STATS_PROPERTIES_REGEXP} from "./constants";
+import _ from "lodash";
+
+export type AutoSyncStatus = "idle" | "pending" | "syncing" | "error";
+
+const pendingBlockUUIDs = new Set<string>();
+let debounceTimeout = null;
+let status: AutoSyncStatus = "idle";
+let statusChangeListener: (status: AutoSyncStatus) => void = () => {};
+
+const setStatus = (newStatus: AutoSyncStatus) => {
+    if (status == newStatus) return;
+    status = newStatus;
+    statusChangeListener(status);
+};
+
+const scheduleAutoSync = () => {
+    clearTimeout(debounceTimeout);
+    const debounceSeconds = Math.max(Number(logseq.settings.autoSyncDebounceSeconds) || 30, 1);
+    debounceTimeout = setTimeout(performAutoSync, debounceSeconds * 1000);
+};
+
+const queueBlocks = (blockUUIDs: string[]) => {
+    if (!logseq.settings.autoSync) return;
+    blockUUIDs.forEach((uuid) => pendingBlockUUIDs.add(uuid));
+    if (pendingBlockUUIDs.size == 0) return;
+    if (status != "syncing") setStatus("pending");
+    scheduleAutoSync();
+};
+
+const performAutoSync = async () => {
+    if (LogseqToAnkiSync.isSyncing) {
+        // Wait for the running sync to finish
+        scheduleAutoSync();
+        return;
+    }
+    const blockUUIDs = [...pendingBlockUUIDs];
+    pendingBlockUUIDs.clear();
+    setStatus("syncing");
+    try {
+        await new LogseqToAnkiSync().sync({scope: {type: "blocks", blockUUIDs}, auto: true});
+        setStatus(pendingBlockUUIDs.size > 0 ? "pending" : "idle");
+    } catch (e) {
+        console.error("Auto sync failed:", e);
+        blockUUIDs.forEach((uuid) => pendingBlockUUIDs.add(uuid)); // Retry with the next change
+        setStatus("error");
+    }
+};
+
+// Strips the properties written to blocks by the sync itself (review stats and id)
+const removeOwnProperties = (content: string) =>
+    content
+        .replaceAll(ANKI_REVIEW_STATS_PROPERTIES_REGEXP, "")
+        .replace(/^\s*id::.*\n?/gim, "")
+        .trim();
+
+// Whether the block's content change only touches the properties written by the sync.
+// Otherwise writing review stats back to logseq would trigger an auto sync after every sync.
+const isOwnChange = (block, txData: any[]) => {
+    const contentDatoms = txData.filter(
+        ([blockID, attribute]) => blockID == block.id && attribute == "content",
+    );
+    const oldContent = _.get(_.find(contentDatoms, ([, , , , added]) => added === false), 2);
+    const newContent = _.get(_.find(contentDatoms, ([, , , , added]) => added === true), 2);
+    if (oldContent == null || newContent == null) return false;
+    return removeOwnProperties(oldContent) == removeOwnProperties(newContent);
+};
+
+// Deleted blocks can't be fetched anymore, hence their uuids are read from the retracted datoms
+const getDeletedBlockUUIDs = (txData: any[]): string[] => {
+    const uuidDatoms = txData.filter(([, attribute]) => attribute == "uuid");
+    const addedBlockIDs = new Set(
+        uuidDatoms.filter(([, , , , added]) => added === true).map(([blockID]) => blockID),
+    );
+    return uuidDatoms
+        .filter(([blockID, , , , added]) => added === false && !addedBlockIDs.has(blockID))
+        .map(([, , uuid]) => String(uuid));
+};
+
+export const init = (onStatusChange: (status: AutoSyncStatus) => void) => {
+    statusChangeListener = onStatusChange;
+    LogseqProxy.DB.registerDBChangeListener(({blocks, txData}) => {
+        queueBlocks([
+            ...blocks
+                .filter((block) => block.page != null) // Ignore pages
+                .filter((block) => !isOwnChange(block, txData || []))
+                .map((block) => getUUIDFromBlock(block))
+                .filter((uuid) => uuid != null),
+            ...getDeletedBlockUUIDs(txData || []),
+        ]);
+    });
+    blockAndPageHashCache.registerHashInvalidationListener(
+        (blockUUIDs, changedBlock, txData) => {
+            if (!isOwnChange(changedBlock, txData)) queueBlocks(blockUUIDs);
+        },
+    );
+    LogseqProxy.Settings.registerSettingsChangeListener((newSettings, oldSettings) => {
+        if (newSettings.autoSync || !oldSettings.autoSync) return;
+        clearTimeout(debounceTimeout);
+        pendingBlockUUIDs.clear();
+        setStatus("idle");
+    });
+};
@@ -9,6 +9,10 @@ export const MD_PROPERTIES_REGEXP = /^\s*(\w|-)*::.*\n?\n?/gm;
 export const MD_IMAGE_EMBEDED_REGEXP = /!\[[^\]]*\]\((.*?)\s*("(?:.*[^"])")?\s*\)/g;
 export const ORG_MATH_BLOCK_REGEXP = /\\\[([\s\S]*?)\\\]/g;
 export const ORG_PROPERTIES_REGEXP = /:PROPERTIES:\n((.|\n)*?):END:\n?/gm;
+// Anki review stats written back to logseq blocks (see ankiReviewStatsInLogseq setting)
+export const ANKI_REVIEW_STATS_PROPERTIES_REGEXP = /^\s*anki-(interval|lapses|due|ease|reviews)::.*\n?/gim;
+// Tag added to anki notes whose blocks were removed when orphanedAnkiNotes is not "Delete"
+export const ANKI_ORPHAN_TAG = "logseq-orphan";
 export const LOGSEQ_BLOCK_REF_REGEXP = /\(\(([^\)\n]*?)\)\)(?!\))/gm;
 export const LOGSEQ_RENAMED_BLOCK_REF_REGEXP = /\[(.*?)\]\(\(\((.*?)\)\)\)/gm;
 export const LOGSEQ_RENAMED_PAGE_REF_REGEXP = /\[(.*?)\]\(\[\[(.*?)\]\]\)/gm;
@@ -16,6 +20,9 @@ export const LOGSEQ_PAGE_REF_REGEXP = /(?<!#)\[\[(.*?)\]\]/gm;
 // The \u2063? is to match the zero-width space that the plugin sometimes add to bypass cloze end.
 export const LOGSEQ_EMBDED_PAGE_REGEXP = /\{\{embed \[\[(.*?)\]\] *?\}\u2063?\}/gm;
 export const LOGSEQ_EMBDED_BLOCK_REGEXP = /\{\{embed \(\((.*?)\)\) *?\}\u2063?\}/gm;
+// Unlike embeds, escaped queries (e.g. inside query results) are not matched
+export const LOGSEQ_QUERY_MACRO_REGEXP = /\{\{query\s+(.*?)\}\}/gm;
+export const LOGSEQ_ADVANCED_QUERY_REGEXP = /#\+BEGIN_QUERY[^\n]*\n([\s\S]*?)\n\s*#\+END_QUERY/gim;
 
 export const isImage_REGEXP = /^[^?]*\.(png|jpg|jpeg|bmp|tiff|gif|apng|svg|webp)(\?.*)?$/i;
 export const isAudio_REGEXP = /^[^?]*\.(mp3|wav|ogg|flac|aac|opus)(\?.*)?$/i;
@@ -23,6 +30,8 @@ export const isVideo_REGEXP = /^[^?]*\.(mp4|webm|mov)(\?.*)?$/i;
 export const isWebURL_REGEXP =
     /^(https?:(\/\/)?(?:www\.|(?!www))[a-zA-Z0-9][a-zA-Z0-9-]+[a-zA-Z0-9]\.[^\s]{2,}|www\.[a-zA-Z0-9][a-zA-Z0-9-]+[a-zA-Z0-9]\.[^\s]{2,}|https?:(\/\/)?(?:www\.|(?!www))[a-zA-Z0-9]+\.[^\s]{2,}|www\.[a-zA-Z0-9]+\.[^\s]{2,})$/i;
 
+export const MERMAID_RUNTIME_FILENAME = "_logseq_anki_sync_mermaid.js";
+
 export const OhmStrToListGrammar = ohm.grammar(String.raw`
     StrRegArray {
         Exp = listOf<StrOrRegex, separator> separator*
@@ -188,6 +197,12 @@ export const ADD_OCCLUSION_ICON = `<svg xmlns="http://www.w3.org/2000/svg" class
 
 export const REMOVE_OCCLUSION_ICON = `<svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-square-minus" width="24" height="24" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M12.5 21h-7.5a2 2 0 0 1 -2 -2v-14a2 2 0 0 1 2 -2h14a2 2 0 0 1 2 2v10" /><path d="M16 19h6" /></svg>`;
 
+export const ELLIPSE_OCCLUSION_ICON = `<svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-oval" width="24" height="24" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M6 12a6 9 0 1 0 12 0a6 9 0 1 0 -12 0" /></svg>`;
+
+export const POLYGON_OCCLUSION_ICON = `<svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-pentagon" width="24" height="24" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M12 3l9 6.5l-3.5 10.5h-11l-3.5 -10.5z" /></svg>`;
+
+export const FREEHAND_OCCLUSION_ICON = `<svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-scribble" width="24" height="24" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M3 15c2 3 4 4 7 4s7 -3 7 -7s-3 -7 -6 -7s-5 1.5 -5 4s2 5 6 5s8.408 -2.453 10 -5" /></svg>`;
+
 export const SUCCESS_ICON = `<span class="text-success"><svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-circle-check" width="20" height="20" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"></path><circle cx="12" cy="12" r="9"></circle><path d="M9 12l2 2l4 -4"></path></svg></span>`;
 
 export const WARNING_ICON = `<span class="text-warning"><svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-alert-circle" width="20" height="20" viewBox="0 0 24 24" stroke-width="2" stroke="currentColor" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"></path><circle cx="12" cy="12" r="9"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg></span>`;
@@ -4,13 +4,20 @@ import {ClozeNote} from "./notes/ClozeNote";
 import {MultilineCardNote} from "./notes/MultilineCardNote";
 import _ from "lodash";
 import {LogseqToAnkiSync} from "./syncLogseqToAnki";
-import {addSettingsToLogseq} from "./settings";
+import {addSettingsToLogseq, testAnkiConnectConnection} from "./settings";
 import {ANKI_ICON} from "./constants";
 import {LogseqProxy} from "./logseq/LogseqProxy";
 import {AddonRegistry} from "./addons/AddonRegistry";
 import {SwiftArrowNote} from "./notes/SwiftArrowNote";
 import {ImageOcclusionNote} from "./notes/ImageOcclusionNote";
+import {CardTableNote} from "./notes/CardTableNote";
+import {SequenceNote} from "./notes/SequenceNote";
+import {MultipleChoiceNote} from "./notes/MultipleChoiceNote";
 import * as blockAndPageHashCache from "./logseq/blockAndPageHashCache";
+import * as persistentCache from "./logseq/persistentCache";
+import {InheritanceResolver} from "./logseq/InheritanceResolver";
+import * as autoSyncLogseqToAnki from "./autoSyncLogseqToAnki";
+import {AutoSyncStatus} from "./autoSyncLogseqToAnki";
 import {Buffer} from "buffer/";
 import process from "process";
 import {SelectionModal} from "./ui/general/SelectionModal";
@@ -18,6 +25,11 @@ import {Note} from "./notes/Note";
 import {showModelWithButtons} from "./ui/general/ModelWithBtns";
 import {UI} from "./ui/UI";
 import * as AnkiConnect from "./anki-connect/AnkiConnect";
+import {
+    ConverterExtension,
+    ConverterExtensionNodeType,
+    ConverterExtensionRegistry,
+} from "./logseq/ConverterExtensionRegistry";
 import pkg from "./../package.json";
 
 function main(baseInfo: LSPluginBaseInfo) {
@@ -25,6 +37,9 @@ function main(baseInfo: LSPluginBaseInfo) {
     const syncLogseqToAnki = async function () {
         await new LogseqToAnkiSync().sync();
     };
+    const dryRunLogseqToAnki = async function () {
+        await new LogseqToAnkiSync().sync({dryRun: true});
+    };
     logseq.provideModel({
         syncLogseqToAnki: syncLogseqToAnki,
     });
@@ -36,6 +51,89 @@ function main(baseInfo: LSPluginBaseInfo) {
         },
         syncLogseqToAnki,
     );
+    logseq.App.registerCommandPalette(
+        {
+            key: `logseq-anki-sync-dry-run-command-palette-${baseInfo.id}`,
+            label: `Dry Run Logseq to Anki Sync (Export Plan as JSON)`,
+        },
+        dryRunLogseqToAnki,
+    );
+    logseq.App.registerCommandPalette(
+        {
+            key: `logseq-anki-sync-purge-orphans-command-palette-${baseInfo.id}`,
+            label: `Purge Orphaned Anki Notes`,
+        },
+        async () => {
+            await new LogseqToAnkiSync().purgeOrphanedNotes();
+        },
+    );
+    logseq.App.registerCommandPalette(
+        {
+            key: `logseq-anki-sync-test-connection-command-palette-${baseInfo.id}`,
+            label: `Test AnkiConnect Connection`,
+        },
+        testAnkiConnectConnection,
+    );
+    logseq.App.registerCommandPalette(
+        {
+            key: `logseq-anki-sync-undo-command-palette-${baseInfo.id}`,
+            label: `Undo Last Logseq to Anki Sync`,
+        },
+        async () => {
+            await new LogseqToAnkiSync().undoLastSync();
+        },
+    );
+    const syncPageToAnki = async function (pageName: string, includeNamespaceChildren = false) {
+        await new LogseqToAnkiSync().sync({
+            scope: {type: "page", pageName, includeNamespaceChildren},
+        });
+    };
+    const syncBlocksToAnki = async function (blockUUIDs: string[]) {
+        await new LogseqToAnkiSync().sync({scope: {type: "blocks", blockUUIDs}});
+    };
+    const syncCurrentPageToAnki = async function () {
+        const currentPage = await logseq.Editor.getCurrentPage();
+        if (currentPage == null) {
+            await logseq.UI.showMsg("No page is open.", "warning");
+            return;
+        }
+        if ("page" in currentPage) await syncBlocksToAnki([currentPage.uuid]); // Zoomed in block
+        else await syncPageToAnki(currentPage.name as string);
+    };
+    const syncSelectedBlocksToAnki = async function () {
+        const selectedBlocks = await logseq.Editor.getSelectedBlocks();
+        if (selectedBlocks == null || selectedBlocks.length == 0) {
+            await logseq.UI.showMsg("No blocks are selected.", "warning");
+            return;
+        }
+        await syncBlocksToAnki(selectedBlocks.map((block) => block.uuid));
+    };
+    logseq.App.registerCommandPalette(
+        {
+            key: `logseq-anki-sync-current-page-command-palette-${baseInfo.id}`,
+            label: `Sync Current Page to Anki`,
+        },
+        syncCurrentPageToAnki,
+    );
+    logseq.App.registerCommandPalette(
+        {
+            key: `logseq-anki-sync-selected-blocks-command-palette-${baseInfo.id}`,
+            label: `Sync Selected Blocks to Anki`,
+        },
+        syncSelectedBlocksToAnki,
+    );
+    logseq.App.registerPageMenuItem("Sync page to Anki", async ({page}) => {
+        await syncPageToAnki(page);
+    });
+    logseq.App.registerPageMenuItem("Sync page and namespace to Anki", async ({page}) => {
+        await syncPageToAnki(page, true);
+    });
+    logseq.Editor.registerBlockContextMenuItem("Sync to Anki", async ({uuid}) => {
+        const selectedBlocks = (await logseq.Editor.getSelectedBlocks()) || [];
+        if (selectedBlocks.some((block) => block.uuid == uuid))
+            await syncBlocksToAnki(selectedBlocks.map((block) => block.uuid));
+        else await syncBlocksToAnki([uuid]);
+    });
     logseq.provideStyle(`
     logseq-anki-toolbar-item-${baseInfo.id} {
       display: flex;
@@ -48,14 +146,23 @@ function main(baseInfo: LSPluginBaseInfo) {
       opacity: 1;
     }
   `);
-    logseq.App.registerUIItem("toolbar", {
-        key: `logseq-anki-sync${baseInfo.id == "logseq-anki-sync" ? "" : "-" + baseInfo.id}`,
-        template: String.raw`
-      <a title="Start Logseq to Anki Sync" data-on-click="syncLogseqToAnki" class="button logseq-anki-toolbar-item-${baseInfo.id}">
+    const registerToolbarItem = (autoSyncStatus: AutoSyncStatus = "idle") => {
+        const autoSyncStatusColor = {
+            pending: "var(--color-yellow-500, #eab308)",
+            syncing: "var(--color-blue-500, #3b82f6)",
+            error: "var(--color-red-500, #ef4444)",
+        }[autoSyncStatus];
+        logseq.App.registerUIItem("toolbar", {
+            key: `logseq-anki-sync${baseInfo.id == "logseq-anki-sync" ? "" : "-" + baseInfo.id}`,
+            template: String.raw`
+      <a title="Start Logseq to Anki Sync${autoSyncStatus != "idle" ? ` (Auto sync: ${autoSyncStatus})` : ""}" data-on-click="syncLogseqToAnki" class="button logseq-anki-toolbar-item-${baseInfo.id}">
         <i class="ui__icon ti" style="font-size: 18px;">${ANKI_ICON}</i>
+        ${autoSyncStatusColor ? `<span style="position: absolute; top: 6px; right: 6px; width: 7px; height: 7px; border-radius: 50%; background-color: ${autoSyncStatusColor};"></span>` : ""}
       </a>
     `,
-    });
+        });
+    };
+    registerToolbarItem();
     addSettingsToLogseq();
 
     // Init various modules
@@ -63,13 +170,26 @@ function main(baseInfo: LSPluginBaseInfo) {
     window.parent.LogseqAnkiSync.dispatchEvent = (event: string) => {
         window.dispatchEvent(new Event(event));
     };
+    window.parent.LogseqAnkiSync.registerConverterExtension = (extension: ConverterExtension) =>
+        ConverterExtensionRegistry.add(extension);
+    window.parent.LogseqAnkiSync.unregisterConverterExtension = (
+        nodeType: ConverterExtensionNodeType,
+        name: string,
+    ) => ConverterExtensionRegistry.remove(nodeType, name);
     LogseqProxy.init();
     blockAndPageHashCache.init();
+    persistentCache.init();
+    ConverterExtensionRegistry.init();
+    InheritanceResolver.init();
+    autoSyncLogseqToAnki.init(registerToolbarItem);
     Note.initLogseqOperations();
     ClozeNote.initLogseqOperations();
     MultilineCardNote.initLogseqOperations();
     SwiftArrowNote.initLogseqOperations();
     ImageOcclusionNote.initLogseqOperations();
+    CardTableNote.initLogseqOperations();
+    SequenceNote.initLogseqOperations();
+    MultipleChoiceNote.initLogseqOperations();
     AddonRegistry.getAll().forEach((addon) => addon.init());
     UI.init();
     window.parent.AnkiConnect = AnkiConnect; // Make AnkiConnect available globally
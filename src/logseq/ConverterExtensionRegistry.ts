@@ -0,0 +1,220 @@
+import "@logseq/libs";
+import _ from "lodash";
+import {Mldoc} from "mldoc";
+import type {DependencyEntity} from "./getLogseqContentDirectDependencies";
+
+export type ConverterExtensionNodeType = "Macro" | "Link" | "Custom";
+
+export type ConverterExtensionResult = {
+    html: string;
+    assets?: string[];
+    dependencies?: DependencyEntity[];
+};
+
+/**
+ * Transforms a mldoc AST node to html. Returning null leaves the node to the next extension (or the
+ * default conversion).
+ * For Macro nodes, node is {name, arguments}. For Custom nodes (#+BEGIN_X ... #+END_X), node is {name, content}.
+ */
+export type ConverterExtensionTransformer = (
+    node: any,
+    context: {format: string; content: string},
+) => Promise<ConverterExtensionResult | null> | ConverterExtensionResult | null;
+
+export type ConverterExtension = {
+    nodeType: ConverterExtensionNodeType;
+    name: string; // Macro name (use "renderer :id" for renderer macros), custom block name or "*"
+    transform: ConverterExtensionTransformer;
+};
+
+/**
+ * Registry of converter extensions used by convertToHTMLFile for macros from other plugins, config.edn macros,
+ * links and custom blocks. Other plugins can register extensions using
+ * window.parent.LogseqAnkiSync.registerConverterExtension.
+ */
+export class ConverterExtensionRegistry {
+    public static extensionsList: ConverterExtension[] = [];
+
+    public static init() {
+        ConverterExtensionRegistry.add(configMacrosExtension);
+        window.addEventListener("syncLogseqToAnkiComplete", () => {
+            configMacrosCache = null;
+        });
+    }
+
+    public static add(extension: ConverterExtension) {
+        ConverterExtensionRegistry.remove(extension.nodeType, extension.name);
+        ConverterExtensionRegistry.extensionsList.push(extension);
+    }
+    public static remove(nodeType: ConverterExtensionNodeType, name: string) {
+        _.remove(
+            ConverterExtensionRegistry.extensionsList,
+            (extension) =>
+                extension.nodeType == nodeType &&
+                extension.name.toLowerCase() == name.toLowerCase(),
+        );
+    }
+    // Extensions matching the name come before the "*" ones
+    public static get(
+        nodeType: ConverterExtensionNodeType,
+        names: string[],
+    ): ConverterExtension[] {
+        const extensions = ConverterExtensionRegistry.extensionsList.filter(
+            (extension) => extension.nodeType == nodeType,
+        );
+        return [
+            ..._.flatMap(names, (name) =>
+                extensions.filter(
+                    (extension) => extension.name.toLowerCase() == name.toLowerCase(),
+                ),
+            ),
+            ...extensions.filter((extension) => extension.name == "*"),
+        ];
+    }
+
+    // Returns the result of the first extension that transforms the node
+    public static async transform(
+        nodeType: ConverterExtensionNodeType,
+        node: any,
+        context: {format: string; content: string},
+    ): Promise<ConverterExtensionResult | null> {
+        let names = [_.get(node, "name", "")];
+        if (nodeType == "Macro" && node.name == "renderer")
+            names = [`renderer ${_.get(node, "arguments[0]", "")}`.trim(), "renderer"];
+        for (const extension of ConverterExtensionRegistry.get(nodeType, names)) {
+            try {
+                const result = await extension.transform(node, context);
+                if (result != null) return result;
+            } catch (e) {
+                console.warn(`Converter extension ${extension.name} failed:`, e);
+            }
+        }
+        return null;
+    }
+}
+
+// Returns the [nodeType, node, start_pos, end_pos] of the nodes that can be transformed by extensions
+export function getConverterExtensionNodes(
+    content: string,
+    format = "markdown",
+): Array<[ConverterExtensionNodeType, any, number, number]> {
+    const mldocsOptions = {
+        toc: false,
+        heading_number: false,
+        keep_line_break: false,
+        format: format == "org" ? "Org" : "Markdown",
+        heading_to_list: false,
+        exporting_keep_properties: false,
+        inline_type_with_pos: true,
+        parse_outline_only: false,
+        export_md_remove_options: [],
+        hiccup_in_block: true,
+    };
+    // Skip the node types that cannot be present in the content to avoid parsing it
+    const nodeTypes = _.uniq(
+        ConverterExtensionRegistry.extensionsList.map((extension) => extension.nodeType),
+    ).filter((nodeType) => {
+        if (nodeType == "Macro") return content.includes("{{");
+        if (nodeType == "Custom") return /#\+BEGIN_/i.test(content);
+        return true;
+    });
+    if (nodeTypes.length == 0 || content.trim() == "") return [];
+    const extensionNodes = [];
+    try {
+        const blocks = nodeTypes.includes("Custom")
+            ? JSON.parse(Mldoc.parseJson(content, JSON.stringify(mldocsOptions)))
+            : [];
+        for (const block of blocks) {
+            if (_.get(block, "[0][0]") != "Custom") continue;
+            const {start_pos, end_pos} = block[block.length - 1];
+            extensionNodes.push([
+                "Custom",
+                {name: block[0][1], content: block[0][4]},
+                start_pos,
+                end_pos,
+            ]);
+        }
+        const inlines = JSON.parse(
+            Mldoc.parseInlineJson(
+                content,
+                JSON.stringify({...mldocsOptions, parse_outline_only: true}),
+                JSON.stringify({}),
+            ),
+        );
+        for (const inline of inlines) {
+            const type = _.get(inline, "[0][0]");
+            if (!["Macro", "Link"].includes(type) || !nodeTypes.includes(type)) continue;
+            const {start_pos, end_pos} = inline[inline.length - 1];
+            if (start_pos == null) continue;
+            // Inline nodes inside custom blocks are handled by the custom block
+            if (extensionNodes.some(([, , start, end]) => start_pos >= start && end_pos <= end))
+                continue;
+            extensionNodes.push([type, inline[0][1], start_pos, end_pos]);
+        }
+    } catch (e) {
+        console.warn(e);
+    }
+    return _.sortBy(extensionNodes, ([, , start_pos]) => start_pos);
+}
+
+// Dependencies of the extension results in the content
+export async function getConverterExtensionDependencies(
+    content: string,
+    format = "markdown",
+): Promise<DependencyEntity[]> {
+    const dependencies: DependencyEntity[] = [];
+    for (const [nodeType, node] of getConverterExtensionNodes(content, format)) {
+        const result = await ConverterExtensionRegistry.transform(nodeType, node, {
+            format,
+            content,
+        });
+        if (result && result.dependencies) dependencies.push(...result.dependencies);
+    }
+    return dependencies;
+}
+
+// --- Default extensions ---
+let configMacrosCache: Promise<Record<string, string>> = null;
+
+async function getConfigMacros(): Promise<Record<string, string>> {
+    if (configMacrosCache == null)
+        configMacrosCache = (async () => {
+            let configs = {};
+            try {
+                configs = await logseq.App.getCurrentGraphConfigs();
+            } catch (e) {
+                console.warn("Failed to load config.edn macros", e);
+            }
+            return _.mapKeys(_.get(configs, "macros", {}), (value, key) =>
+                key.replace(/^:/, "").toLowerCase(),
+            );
+        })();
+    return configMacrosCache;
+}
+
+// Expands the :macros of config.edn. The expanded content is converted to html like other content.
+const configMacrosExtension: ConverterExtension = {
+    nodeType: "Macro",
+    name: "*",
+    transform: async (node, {format}) => {
+        const macro = (await getConfigMacros())[_.get(node, "name", "").toLowerCase()];
+        if (macro == null) return null;
+        const macroArguments = _.get(node, "arguments", []);
+        const expandedContent = macro
+            .toString()
+            .replace(/\$(\d+)/g, (match, index) =>
+                _.get(macroArguments, parseInt(index) - 1, ""),
+            );
+        // Imported here as the converter and the dependency resolver depend on this module
+        const {convertToHTMLFile} = await import("./LogseqToHtmlConverter");
+        const {default: getLogseqContentDirectDependencies} = await import(
+            "./getLogseqContentDirectDependencies"
+        );
+        const expandedHTMLFile = await convertToHTMLFile(expandedContent, format);
+        return {
+            html: expandedHTMLFile.html,
+            assets: [...expandedHTMLFile.assets],
+            dependencies: await getLogseqContentDirectDependencies(expandedContent, format),
+        };
+    },
+};
@@ -0,0 +1,105 @@
+import * as cheerio from "cheerio";
+import _ from "lodash";
+
+/**
+ * Converts the html of an anki field back to logseq markdown.
+ * This is a best effort conversion used to pull anki side edits back into logseq.
+ */
+export function convertHTMLToLogseq(html: string): string {
+    const $ = cheerio.load(`<div id="root">${html}</div>`);
+    $(".hidden, script, style").remove();
+
+    const convertNodes = (nodes): string => nodes.map((i, node) => convertNode(node)).get().join("");
+    const convertNode = (node): string => {
+        if (node.type == "text") return node.data.replace(/\s*\n\s*/g, " ");
+        if (node.type != "tag") return "";
+        const elm = $(node);
+        const content = convertNodes(elm.contents());
+        switch (node.tagName.toLowerCase()) {
+            case "br":
+                return "\n";
+            case "b":
+            case "strong":
+                return `**${content}**`;
+            case "i":
+            case "em":
+                return `*${content}*`;
+            case "s":
+            case "del":
+                return `~~${content}~~`;
+            case "mark":
+                return `==${content}==`;
+            case "code":
+                return `\`${elm.text()}\``;
+            case "pre":
+                return `\n\`\`\`${elm.find("code").attr("data-lang") || ""}\n${elm.text().trim()}\n\`\`\`\n`;
+            case "img": {
+                const src = elm.attr("src") || "";
+                const alt = elm.attr("alt") || "";
+                return `![${alt}](${src.match(/^[a-z]+:\/\//i) ? src : `../assets/${src}`})`;
+            }
+            case "a": {
+                const href = elm.attr("href") || "";
+                const pageName = _.get(href.match(/^logseq:\/\/graph\/.*?\?page=(.*)$/), 1);
+                if (elm.hasClass("tag")) {
+                    const tagName = elm.attr("data-ref");
+                    return tagName.match(/\s/) ? `#[[${tagName}]]` : `#${tagName}`;
+                }
+                if (pageName != null) {
+                    const decodedPageName = decodeURIComponent(pageName);
+                    return content == decodedPageName
+                        ? `[[${decodedPageName}]]`
+                        : `[${content}]([[${decodedPageName}]])`;
+                }
+                return href ? `[${content}](${href})` : content;
+            }
+            case "li":
+                return `\n- ${content.trim()}`;
+            case "p":
+            case "div":
+            case "ul":
+            case "ol":
+            case "blockquote":
+            case "h1":
+            case "h2":
+            case "h3":
+            case "h4":
+            case "h5":
+            case "h6": {
+                const headingLevel = parseInt(_.get(node.tagName.match(/^h(\d)$/i), 1, "0"));
+                const prefix =
+                    headingLevel > 0 ? `${"#".repeat(headingLevel)} ` : node.tagName == "blockquote" ? "> " : "";
+                return `\n${prefix}${content.trim()}\n`;
+            }
+            default:
+                return content;
+        }
+    };
+
+    let markdown = convertNodes($("#root").contents());
+    // Convert anki clozes to logseq anki cloze macros
+    markdown = markdown.replace(
+        /\{\{c(\d+)::((?:.|\n)*?)(?:::((?:.|\n)*?))?\}\}/g,
+        (match, clozeId, clozeContent, hint) =>
+            `{{c${clozeId} ${clozeContent.trim()}${hint ? ` \\\\ ${hint.trim()}` : ""}}}`,
+    );
+    // Convert math delimiters back to logseq ones
+    markdown = markdown.replace(/\\\[((?:.|\n)*?)\\\]/g, (match, math) => `$$${math.trim()}$$`);
+    markdown = markdown.replace(/\\\(((?:.|\n)*?)\\\)/g, (match, math) => `$${math.trim()}$`);
+    return markdown
+        .replaceAll("\u{2063}", "")
+        .replace(/[ \t]+\n/g, "\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/**
+ * Returns the html of the note itself, leaving out the parent blocks wrapped around it when
+ * includeParentContent is enabled.
+ */
+export function getNoteOwnHTML(html: string): string {
+    const $ = cheerio.load(`<div id="root">${html}</div>`);
+    const noteContent = $("#root li.note-content").first();
+    if (noteContent.length == 0) return html;
+    return noteContent.html().trim();
+}
@@ -0,0 +1,194 @@
+/**
+ * This service resolves the properties that notes inherit from their parent blocks and namespace pages
+ * (deck, tags, use-namespace-as-default-deck and disable-anki-sync).
+ * The ancestor chains of all the notes are loaded using a few datascript queries and the inherited properties
+ * of every ancestor are memoized. The memo is cleared when the graph changes or the sync completes.
+ */
+import "@logseq/libs";
+import _ from "lodash";
+import {LogseqProxy} from "./LogseqProxy";
+import getUUIDFromBlock from "./getUUIDFromBlock";
+import {getCaseInsensitive, getLogseqBlockPropSafe} from "../utils/utils";
+
+export type ResolvedNoteConfig = {
+    deck: string | string[] | null; // Nearest deck in parent blocks, then in namespace pages
+    tags: string[]; // Tags of parent blocks and namespace pages
+    useNamespaceAsDefaultDeck: boolean | null; // Nearest value in namespace pages
+    isAnkiSyncDisabled: boolean | null; // Nearest value in parent blocks, then in namespace pages
+};
+
+type Entity = {
+    id: number;
+    uuid?: string;
+    properties?: any;
+    parentId?: number;
+    namespaceId?: number;
+};
+
+const EMPTY_CONFIG: ResolvedNoteConfig = {
+    deck: null,
+    tags: [],
+    useNamespaceAsDefaultDeck: null,
+    isAnkiSyncDisabled: null,
+};
+
+const getBooleanProp = (entity: Entity, property: string): boolean | null => {
+    const value = getLogseqBlockPropSafe(entity, `properties.${property}`);
+    if ([true, "true"].includes(value)) return true;
+    if ([false, "false"].includes(value)) return false;
+    return null;
+};
+
+const getTagsProp = (entity: Entity): string[] => {
+    const tags = getCaseInsensitive(entity, "properties.tags", []);
+    if (typeof tags == "string") return tags.split(",").map((tag) => tag.trim());
+    return _.flatten([tags]).filter((tag) => typeof tag == "string" && tag != "");
+};
+
+export class InheritanceResolver {
+    private static blocksById = new Map<number, Entity>();
+    private static blockIdsByUUID = new Map<string, number>();
+    private static pagesById = new Map<number, Entity>();
+    private static loadedPageIds = new Set<number>(); // Pages whose blocks are loaded
+    private static resolvedBlocks = new Map<number, ResolvedNoteConfig>();
+    private static resolvedPages = new Map<number, ResolvedNoteConfig>();
+
+    public static init() {
+        LogseqProxy.DB.registerDBChangeListener(() => InheritanceResolver.clear());
+        LogseqProxy.App.registerGraphChangeListener(() => InheritanceResolver.clear());
+        window.addEventListener("syncLogseqToAnkiComplete", () => InheritanceResolver.clear());
+    }
+
+    public static clear() {
+        InheritanceResolver.blocksById.clear();
+        InheritanceResolver.blockIdsByUUID.clear();
+        InheritanceResolver.pagesById.clear();
+        InheritanceResolver.loadedPageIds.clear();
+        InheritanceResolver.resolvedBlocks.clear();
+        InheritanceResolver.resolvedPages.clear();
+    }
+
+    // Loads the blocks of the pages and the namespace pages of the pages
+    private static async loadPages(pageIds: number[]) {
+        pageIds = _.uniq(pageIds).filter(
+            (pageId) => pageId != null && !InheritanceResolver.loadedPageIds.has(pageId),
+        );
+        if (pageIds.length == 0) return;
+        const blocks =
+            (await LogseqProxy.DB.datascriptQuery(`
+            [:find (pull ?b [:db/id :block/uuid :block/properties {:block/parent [:db/id]}])
+            :where
+            [?b :block/page ?p]
+            [(contains? #{${pageIds.join(" ")}} ?p)]
+            ]`)) || [];
+        for (const [block] of blocks) {
+            if (block == null) continue;
+            const uuid = getUUIDFromBlock(block);
+            InheritanceResolver.blocksById.set(block.id, {
+                id: block.id,
+                uuid,
+                properties: block.properties || {},
+                parentId: _.get(block, "parent.id", null),
+            });
+            if (uuid != null)
+                InheritanceResolver.blockIdsByUUID.set(uuid.toLowerCase(), block.id);
+        }
+        pageIds.forEach((pageId) => InheritanceResolver.loadedPageIds.add(pageId));
+
+        // Load the namespace chains level by level
+        let namespaceIds = pageIds.filter(
+            (pageId) => !InheritanceResolver.pagesById.has(pageId),
+        );
+        while (namespaceIds.length > 0) {
+            const pages: Array<[any]> =
+                (await LogseqProxy.DB.datascriptQuery(`
+                [:find (pull ?p [:db/id :block/properties {:block/namespace [:db/id]}])
+                :where
+                [?p :block/name]
+                [(contains? #{${namespaceIds.join(" ")}} ?p)]
+                ]`)) || [];
+            namespaceIds.forEach((pageId) =>
+                InheritanceResolver.pagesById.set(pageId, {id: pageId, properties: {}}),
+            );
+            for (const [page] of pages) {
+                if (page == null) continue;
+                InheritanceResolver.pagesById.set(page.id, {
+                    id: page.id,
+                    properties: page.properties || {},
+                    namespaceId: _.get(page, "namespace.id", null),
+                });
+            }
+            namespaceIds = _.uniq(
+                pages.map(([page]) => _.get(page, "namespace.id", null)),
+            ).filter((pageId) => pageId != null && !InheritanceResolver.pagesById.has(pageId));
+        }
+    }
+
+    private static resolvePage(pageId: number): ResolvedNoteConfig {
+        if (InheritanceResolver.resolvedPages.has(pageId))
+            return InheritanceResolver.resolvedPages.get(pageId);
+        const page = InheritanceResolver.pagesById.get(pageId);
+        if (page == null) return EMPTY_CONFIG;
+        InheritanceResolver.resolvedPages.set(pageId, EMPTY_CONFIG); // Guards against cycles
+        const inherited =
+            page.namespaceId != null
+                ? InheritanceResolver.resolvePage(page.namespaceId)
+                : EMPTY_CONFIG;
+        const resolved: ResolvedNoteConfig = {
+            deck: getLogseqBlockPropSafe(page, "properties.deck") ?? inherited.deck,
+            tags: [...getTagsProp(page), ...inherited.tags],
+            useNamespaceAsDefaultDeck:
+                getBooleanProp(page, "use-namespace-as-default-deck") ??
+                inherited.useNamespaceAsDefaultDeck,
+            isAnkiSyncDisabled:
+                getBooleanProp(page, "disable-anki-sync") ?? inherited.isAnkiSyncDisabled,
+        };
+        InheritanceResolver.resolvedPages.set(pageId, resolved);
+        return resolved;
+    }
+
+    private static resolveBlock(blockId: number, pageId: number): ResolvedNoteConfig {
+        if (InheritanceResolver.resolvedBlocks.has(blockId))
+            return InheritanceResolver.resolvedBlocks.get(blockId);
+        const block = InheritanceResolver.blocksById.get(blockId);
+        if (block == null) return InheritanceResolver.resolvePage(pageId); // Reached the page
+        InheritanceResolver.resolvedBlocks.set(blockId, EMPTY_CONFIG); // Guards against cycles
+        const inherited = InheritanceResolver.resolveBlock(block.parentId, pageId);
+        const resolved: ResolvedNoteConfig = {
+            deck: getLogseqBlockPropSafe(block, "properties.deck") ?? inherited.deck,
+            tags: [...getTagsProp(block), ...inherited.tags],
+            useNamespaceAsDefaultDeck: inherited.useNamespaceAsDefaultDeck,
+            isAnkiSyncDisabled:
+                getBooleanProp(block, "disable-anki-sync") ?? inherited.isAnkiSyncDisabled,
+        };
+        InheritanceResolver.resolvedBlocks.set(blockId, resolved);
+        return resolved;
+    }
+
+    private static async getPageId(note: {uuid: string; page?: any}): Promise<number> {
+        const pageId = _.get(note, "page.id", null);
+        if (pageId != null) return pageId;
+        const block = await LogseqProxy.Editor.getBlock(note.uuid);
+        return _.get(block, "page.id", null);
+    }
+
+    public static async resolveAll(
+        notes: Array<{uuid: string; page?: any}>,
+    ): Promise<ResolvedNoteConfig[]> {
+        const pageIds = await Promise.all(
+            notes.map((note) => InheritanceResolver.getPageId(note)),
+        );
+        await InheritanceResolver.loadPages(pageIds);
+        return notes.map((note, i) => {
+            const blockId = InheritanceResolver.blockIdsByUUID.get(
+                _.get(note, "uuid", "").toLowerCase(),
+            );
+            if (blockId == null) return InheritanceResolver.resolvePage(pageIds[i]);
+            return InheritanceResolver.resolveBlock(blockId, pageIds[i]);
+        });
+    }
+
+    public static async resolve(note: {uuid: string; page?: any}): Promise<ResolvedNoteConfig> {
+        return (await InheritanceResolver.resolveAll([note]))[0];
+    }
+}
@@ -278,6 +278,15 @@ export namespace LogseqProxy {
             }
         }
 
+        static async updateBlock(block: BlockIdentity, content: string): Promise<void> {
+            await getLogseqLock.acquireAsync();
+            try {
+                await logseq.Editor.updateBlock(block, content);
+            } finally {
+                getLogseqLock.release();
+            }
+        }
+
         static async createPageSilentlyIfNotExists(pageName: string) {
             await getLogseqLock.acquireAsync();
             try {
@@ -308,6 +317,19 @@ export namespace LogseqProxy {
             return result;
         }
 
+        static async q<T = any>(dsl: string): Promise<Array<T>> {
+            let result = [];
+            await getLogseqLock.acquireAsync();
+            try {
+                result = (await logseq.DB.q(dsl)) || [];
+            } catch (e) {
+                console.error(e);
+            } finally {
+                getLogseqLock.release();
+            }
+            return result;
+        }
+
         static async datascriptQueryBlocks(
             query: string,
             ...inputs: Array<any>
@@ -27,6 +27,8 @@ import {
     ORG_PROPERTIES_REGEXP,
     specialChars,
     LOGSEQ_RENAMED_PAGE_REF_REGEXP,
+    LOGSEQ_QUERY_MACRO_REGEXP,
+    LOGSEQ_ADVANCED_QUERY_REGEXP,
     isAudio_REGEXP, isVideo_REGEXP
 } from "../constants";
 import {LogseqProxy} from "./LogseqProxy";
@@ -34,6 +36,17 @@ import * as hiccupConverter from "@thi.ng/hiccup";
 import {edn} from "@yellowdig/cljs-tools";
 import path from "path-browserify";
 import objectHash from "../utils/objectHashOptimized";
+import runLogseqQuery, {
+    isQueryResultBlock,
+    isQueryResultPage,
+    LogseqQueryResult,
+} from "./runLogseqQuery";
+import {renderMermaidToSVG} from "../utils/renderMermaidToSVG";
+import {
+    ConverterExtensionRegistry,
+    getConverterExtensionNodes,
+} from "./ConverterExtensionRegistry";
+import * as persistentCache from "./persistentCache";
 
 const mldocsOptions = {
     toc: false,
@@ -86,6 +99,29 @@ export async function convertToHTMLFile(
             })),
         );
 
+    // Content without block refs, embeds, macros, queries and converter extension nodes can be cached
+    // across restarts. The output of extensions can change without the content changing.
+    const persistentCacheKey =
+        !content.match(/\(\(|\{\{|#\+BEGIN_QUERY/i) &&
+        getConverterExtensionNodes(content, format).length == 0
+            ? `HTML:${objectHash({
+                  content,
+                  format,
+                  processRefEmbeds: opts.processRefEmbeds,
+                  displayTags: opts.displayTags,
+                  settings: _.omit(logseq.settings, ["debug"]),
+              })}`
+            : null;
+    const persistedHTMLFile = persistentCacheKey
+        ? await persistentCache.get(persistentCacheKey)
+        : null;
+    if (persistedHTMLFile && persistedHTMLFile.content == content)
+        return {
+            html: persistedHTMLFile.html,
+            assets: new Set<string>(persistedHTMLFile.assets),
+            tags: new Set<string>(persistedHTMLFile.tags),
+        };
+
     let resultContent = content.trim(),
         resultAssets = new Set<string>(),
         resultTags = new Set<string>();
@@ -134,6 +170,14 @@ export async function convertToHTMLFile(
         return `${strFront}${g3}${strBack}`;
     });
 
+    // Put the output of converter extensions (macros, links and custom blocks) in hashmap
+    resultContent = await processConverterExtensions(
+        resultContent,
+        resultAssets,
+        hashmap,
+        format,
+    );
+
     // Put all html content in hashmap
     let parsedJson = Mldoc.parseInlineJson(
         resultContent,
@@ -217,7 +261,16 @@ export async function convertToHTMLFile(
     );
     // Render images and and codes
     const $ = cheerio.load(resultContent, {decodeEntities: false});
+    const mermaidDiagrams = [];
     $("pre code").each(function (i, elm) {
+        if (
+            _.get(elm, "attribs.data-lang", "").toLowerCase() == "mermaid" &&
+            logseq.settings.mermaidDiagrams != null &&
+            logseq.settings.mermaidDiagrams != "Show as code"
+        ) {
+            mermaidDiagrams.push(elm);
+            return;
+        }
         // Syntax hightlight block code (block codes are preceded by pre)
         $(elm).addClass("hljs");
         try {
@@ -232,6 +285,22 @@ export async function convertToHTMLFile(
             console.warn(e);
         }
     });
+    for (const elm of mermaidDiagrams) {
+        // Mermaid diagrams are rendered by the card template js unless pre-rendered here
+        const diagramCode = $(elm).html(); // Already html escaped
+        let diagramHTML = `<div class="mermaid-diagram mermaid">${diagramCode}</div>`;
+        if (logseq.settings.mermaidDiagrams == "Pre-render as SVG during sync") {
+            try {
+                const svg = await renderMermaidToSVG(decodeHTMLEntities(diagramCode, []));
+                // The }} in svg styles would end the cloze
+                diagramHTML = `<div class="mermaid-diagram">${svg.replace(/}}/g, "} }")}</div>`;
+            } catch (e) {
+                console.warn(e);
+                diagramHTML = `<pre><code class="hljs">${diagramCode}</code></pre>`;
+            }
+        }
+        $(elm).parent("pre").replaceWith(diagramHTML);
+    }
     $("img").each(function (i, elm) {
         // Handle images
         console.warn(
@@ -301,6 +370,13 @@ export async function convertToHTMLFile(
         })),
         {html: resultContent, assets: resultAssets, tags: resultTags},
     );
+    if (persistentCacheKey)
+        persistentCache.set(persistentCacheKey, {
+            content, // To detect hash collisions
+            html: resultContent,
+            assets: [...resultAssets],
+            tags: [...resultTags],
+        });
     return {html: resultContent, assets: resultAssets, tags: resultTags};
 }
 
@@ -358,6 +434,29 @@ async function processRefEmbeds(
     format,
 ): Promise<string> {
     let block;
+    // Render the results of queries as static list / table
+    resultContent = await safeReplaceAsync(
+        resultContent,
+        LOGSEQ_ADVANCED_QUERY_REGEXP,
+        async (match, query) => {
+            const str = getRandomUnicodeString();
+            hashmap[str] = await getQueryResultHTML(
+                await runLogseqQuery(query, true),
+                resultAssets,
+            );
+            return str;
+        },
+    );
+    resultContent = await safeReplaceAsync(
+        resultContent,
+        LOGSEQ_QUERY_MACRO_REGEXP,
+        async (match, query) => {
+            const str = getRandomUnicodeString();
+            hashmap[str] = await getQueryResultHTML(await runLogseqQuery(query), resultAssets);
+            return str;
+        },
+    );
+
     resultContent = await safeReplaceAsync(
         resultContent,
         LOGSEQ_EMBDED_BLOCK_REGEXP,
@@ -545,6 +644,69 @@ async function processRefEmbeds(
     return resultContent;
 }
 
+async function getQueryResultHTML(
+    queryResult: LogseqQueryResult,
+    resultAssets: Set<string>,
+): Promise<string> {
+    const graphName = _.get(await logseq.App.getCurrentGraph(), "name");
+    const getPageLinkHTML = (page) =>
+        `<a href="logseq://graph/${encodeURIComponent(graphName)}?page=${encodeURIComponent(
+            page.name,
+        )}" class="page-reference">${_.escape(
+            _.get(page, "original-name", page.originalName || page.name),
+        )}</a>`;
+    const results = queryResult.results;
+    let resultHTML = "";
+    if (results.length == 0)
+        resultHTML = `<span class="query-no-results">No matched results</span>`;
+    else if (results.every(isQueryResultPage)) {
+        // Pages are shown as table of their properties
+        const propertyKeys = _.uniq(
+            _.flatMap(results, (page) => Object.keys(_.get(page, "properties") || {})),
+        );
+        resultHTML = `<table class="query-table"><thead><tr><th>Page</th>${propertyKeys
+            .map((key) => `<th>${_.escape(key)}</th>`)
+            .join("")}</tr></thead><tbody>`;
+        for (const page of results) {
+            resultHTML += `<tr><td>${getPageLinkHTML(page)}</td>${propertyKeys
+                .map((key) => {
+                    const value = _.get(page, ["properties", key], "");
+                    return `<td>${_.escape(_.flatten([value]).join(", "))}</td>`;
+                })
+                .join("")}</tr>`;
+        }
+        resultHTML += `</tbody></table>`;
+    } else {
+        resultHTML = `<ul class="query-results">`;
+        for (const result of results) {
+            resultHTML += `\n<li>`;
+            if (isQueryResultBlock(result)) {
+                // Queries inside the results are not run (like macros), as a query block can be
+                // in its own results
+                const block_content = escapeClozesAndMacroDelimiters(
+                    _.get(result, "content"),
+                ).replace(/#\+(BEGIN|END)_QUERY/gi, "#\u{2063}+$1_QUERY");
+                const format = _.get(result, "format") || "markdown";
+                const blockContentHTMLFile = await convertToHTMLFile(block_content, format);
+                blockContentHTMLFile.assets.forEach((element) => {
+                    resultAssets.add(element);
+                });
+                resultHTML += blockContentHTMLFile.html;
+            } else if (isQueryResultPage(result)) resultHTML += getPageLinkHTML(result);
+            else
+                resultHTML += _.escape(
+                    typeof result == "object" ? JSON.stringify(result) : String(result),
+                );
+            resultHTML += `</li>`;
+        }
+        resultHTML += `</ul>`;
+    }
+    return `<div class="query-results-container">
+                <div class="query-title">${_.escape(queryResult.title)}</div>
+                ${resultHTML}
+                </div>`;
+}
+
 async function hideRefEmbeds(resultContent, resultAssets, hashmap, format): Promise<string> {
     resultContent = await safeReplaceAsync(
         resultContent,
@@ -574,6 +736,33 @@ async function hideRefEmbeds(resultContent, resultAssets, hashmap, format): Prom
     return resultContent;
 }
 
+async function processConverterExtensions(
+    resultContent,
+    resultAssets,
+    hashmap,
+    format,
+): Promise<string> {
+    let resultUTF8 = new TextEncoder().encode(resultContent);
+    const extensionNodes = getConverterExtensionNodes(resultContent, format);
+    for (const [nodeType, node, start_pos, end_pos] of extensionNodes.reverse()) {
+        const result = await ConverterExtensionRegistry.transform(nodeType, node, {
+            format,
+            content: resultContent,
+        });
+        if (result == null) continue;
+        (result.assets || []).forEach((asset) => resultAssets.add(asset));
+        const content = new TextDecoder().decode(resultUTF8.slice(start_pos, end_pos));
+        const str = getRandomUnicodeString();
+        hashmap[str] = result.html;
+        resultUTF8 = new Uint8Array([
+            ...resultUTF8.subarray(0, start_pos),
+            ...new TextEncoder().encode(content.endsWith("\n") ? `${str}\n` : str),
+            ...resultUTF8.subarray(end_pos),
+        ]);
+    }
+    return new TextDecoder().decode(resultUTF8);
+}
+
 async function processInlineHTML(
     node,
     start_pos,
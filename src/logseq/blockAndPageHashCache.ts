@@ -9,15 +9,29 @@ import getUUIDFromBlock from "./getUUIDFromBlock";
 import getLogseqContentDirectDependencies from "./getLogseqContentDirectDependencies";
 import hashSum from "hash-sum";
 import _ from "lodash";
-import {MD_PROPERTIES_REGEXP, ORG_PROPERTIES_REGEXP} from "../constants";
+import {
+    ANKI_REVIEW_STATS_PROPERTIES_REGEXP,
+    LOGSEQ_ADVANCED_QUERY_REGEXP,
+    LOGSEQ_QUERY_MACRO_REGEXP,
+    MD_PROPERTIES_REGEXP,
+    ORG_PROPERTIES_REGEXP,
+} from "../constants";
 import {getFirstNonEmptyLine} from "../utils/utils";
+import * as persistentCache from "./persistentCache";
 let graph = new DepGraph();
+// Nodes of blocks containing queries. Their results can change with any change in the graph.
+let queryNodes = new Set<string>();
 
 // -- Hash Dependency Graph --
 const clearGraph = () => {
     graph = new DepGraph();
+    queryNodes = new Set();
 };
 
+const hasQuery = (content: string) =>
+    content.match(LOGSEQ_QUERY_MACRO_REGEXP) != null ||
+    content.match(LOGSEQ_ADVANCED_QUERY_REGEXP) != null;
+
 const removeBlockNode = (blockUUID) => {
     blockUUID = blockUUID.toLowerCase(); // Convert to lowercase to avoid case sensitivity issues
 
@@ -48,6 +62,20 @@ const removePageNode = (pageName) => {
     graph.removeNode(pageName + "Page");
 };
 
+// Direct dependencies are persisted unless they depend on more than content (queries, macros)
+const getDirectDependencies = async (cacheKey, block, content) => {
+    const stamp = hashSum([_.get(block, "updatedAt", ""), content]);
+    const cached = await persistentCache.get(cacheKey);
+    if (cached && cached.stamp == stamp) return cached.dependencies;
+    const dependencies = await getLogseqContentDirectDependencies(
+        content,
+        _.get(block, "format", ""),
+    );
+    if (!content.includes("{{") && !content.match(LOGSEQ_ADVANCED_QUERY_REGEXP))
+        persistentCache.set(cacheKey, {stamp, dependencies});
+    return dependencies;
+};
+
 const addPageNode = async (pageName) => {
     pageName = pageName.toLowerCase(); // Convert to lowercase to avoid case sensitivity issues
 
@@ -64,12 +92,17 @@ const addBlockNode = async (blockUUID) => {
     if (graph.hasNode(blockUUID + "Block")) return;
     graph.addNode(blockUUID + "Block");
     const block = await LogseqProxy.Editor.getBlock(blockUUID);
-    const blockPage = await LogseqProxy.Editor.getPage(_.get(block, "page.id", ""));
-    const directDependencies = await getLogseqContentDirectDependencies(
+    const blockPage = block != null ? await LogseqProxy.Editor.getPage(block.page.id) : null;
+    if (hasQuery(_.get(block, "content", ""))) queryNodes.add(blockUUID + "Block");
+    const directDependencies = await getDirectDependencies(
+        `Block:${blockUUID}`,
+        block,
         _.get(block, "content", ""),
-        _.get(block, "format", ""),
     );
     for (const dependency of directDependencies) {
+        // Query results may contain the block itself
+        if (dependency.type === "Block" && dependency.value.toLowerCase() == blockUUID)
+            continue;
         if (dependency.type === "Block") await addBlockNode(dependency.value);
         else if (dependency.type === "FirstLineOfBlock")
             await addFirstLineOfBlockNode(dependency.value);
@@ -80,11 +113,16 @@ const addBlockNode = async (blockUUID) => {
     graph.dependenciesOf(blockUUID + "Block").forEach((dependency) => {
         toHash.push(graph.getNodeData(dependency));
     });
+    // Review stats are written back to the block by the plugin, hence they are not hashed
+    const content = _.get(block, "content", "").replaceAll(
+        ANKI_REVIEW_STATS_PROPERTIES_REGEXP,
+        "",
+    );
     toHash.push([
         _.get(blockPage, "updatedAt", ""),
-        _.get(block, "content", "").length,
-        _.get(block, "content", "").slice(0, 4),
-        _.get(block, "content", "").slice(-1, -5),
+        content.length,
+        content.slice(0, 4),
+        content.slice(-1, -5),
         _.get(block, "parent.id", ""),
         _.get(block, "left.id", ""),
     ]);
@@ -102,9 +140,11 @@ const addFirstLineOfBlockNode = async (blockUUID) => {
             .replaceAll(MD_PROPERTIES_REGEXP, "")
             .replaceAll(ORG_PROPERTIES_REGEXP, ""),
     );
-    const directDependencies = await getLogseqContentDirectDependencies(
+    if (hasQuery(blockContentFirstLine)) queryNodes.add(blockUUID + "FirstLineOfBlock");
+    const directDependencies = await getDirectDependencies(
+        `FirstLineOfBlock:${blockUUID}`,
+        block,
         blockContentFirstLine,
-        _.get(block, "format", ""),
     );
     for (const dependency of directDependencies) {
         if (dependency.type === "Block") await addBlockNode(dependency.value);
@@ -147,6 +187,26 @@ export const getPageHash = async (pageName) => {
     return graph.getNodeData(pageName + "Page");
 };
 
+// -- Notify about blocks whose hash got invalidated because one of their dependencies changed --
+// The listener is called for every changed block with the blocks invalidated by the change
+type HashInvalidationListener = (
+    blockUUIDs: string[],
+    changedBlock: any,
+    txData: any[],
+) => void;
+const hashInvalidationListeners: Array<HashInvalidationListener> = [];
+
+export const registerHashInvalidationListener = (listener: HashInvalidationListener) => {
+    hashInvalidationListeners.push(listener);
+};
+
+const getDependantBlockUUIDs = (node: string): string[] => {
+    if (!graph.hasNode(node)) return [];
+    return graph
+        .dependantsOf(node)
+        .map((dependant) => dependant.replace(/(FirstLineOfBlock|Block)$/, ""));
+};
+
 // -- Maintain Cache State by using DB.onChanged --
 export const init = () => {
     LogseqProxy.DB.registerDBChangeListener(async ({blocks, txData, txMeta}) => {
@@ -159,15 +219,50 @@ export const init = () => {
             block = await logseq.Editor.getBlock(additionalDetails[0]);
             if (block != null) blocks.push(block);
         }
+        const invalidations: Array<[any, Set<string>]> = [];
         while (blocks.length > 0) {
             const block = blocks.pop();
+            const invalidatedBlockUUIDs = new Set<string>();
             block.uuid = getUUIDFromBlock(block);
             if (block.uuid != null) {
+                getDependantBlockUUIDs(block.uuid.toLowerCase() + "Block").forEach((uuid) =>
+                    invalidatedBlockUUIDs.add(uuid),
+                );
+                getDependantBlockUUIDs(block.uuid.toLowerCase() + "FirstLineOfBlock").forEach(
+                    (uuid) => invalidatedBlockUUIDs.add(uuid),
+                );
                 removeBlockNode(block.uuid);
                 removeFirstLineOfBlockNode(block.uuid);
             }
-            if (block.originalName != null) removePageNode(block.originalName);
-            if (block.name != null) removePageNode(block.name);
+            for (const pageName of [block.originalName, block.name]) {
+                if (pageName == null) continue;
+                getDependantBlockUUIDs(pageName.toLowerCase() + "Page").forEach((uuid) =>
+                    invalidatedBlockUUIDs.add(uuid),
+                );
+                removePageNode(pageName);
+            }
+            invalidations.push([block, invalidatedBlockUUIDs]);
+        }
+        // Any change may change query results, so the blocks containing queries are rebuilt
+        const invalidatedQueryBlockUUIDs = new Set<string>();
+        if (invalidations.length > 0) {
+            for (const node of queryNodes) {
+                if (!graph.hasNode(node)) continue;
+                invalidatedQueryBlockUUIDs.add(node.replace(/(FirstLineOfBlock|Block)$/, ""));
+                getDependantBlockUUIDs(node).forEach((uuid) =>
+                    invalidatedQueryBlockUUIDs.add(uuid),
+                );
+                graph.dependantsOf(node).forEach((dependant) => graph.removeNode(dependant));
+                graph.removeNode(node);
+            }
+            queryNodes.clear();
+        }
+        for (const [block, invalidatedBlockUUIDs] of invalidations) {
+            invalidatedQueryBlockUUIDs.forEach((uuid) => invalidatedBlockUUIDs.add(uuid));
+            if (invalidatedBlockUUIDs.size > 0)
+                hashInvalidationListeners.forEach((listener) =>
+                    listener([...invalidatedBlockUUIDs], block, txData || []),
+                );
         }
     });
     LogseqProxy.Settings.registerSettingsChangeListener((newSettings, oldSettings) => {
@@ -3,8 +3,13 @@ import {
     LOGSEQ_BLOCK_REF_REGEXP,
     LOGSEQ_EMBDED_PAGE_REGEXP,
     LOGSEQ_EMBDED_BLOCK_REGEXP,
+    LOGSEQ_QUERY_MACRO_REGEXP,
+    LOGSEQ_ADVANCED_QUERY_REGEXP,
 } from "../constants";
 import {LogseqProxy} from "./LogseqProxy";
+import runLogseqQuery, {isQueryResultBlock, isQueryResultPage} from "./runLogseqQuery";
+import getUUIDFromBlock from "./getUUIDFromBlock";
+import {getConverterExtensionDependencies} from "./ConverterExtensionRegistry";
 export type DependencyEntity = {
     type: "FirstLineOfBlock" | "Block" | "Page";
     value: BlockUUID | PageEntityName;
@@ -46,6 +51,29 @@ export default async function getLogseqContentDirectDependencies(
     while ((match = LOGSEQ_EMBDED_PAGE_REGEXP.exec(content))) {
         pageDependency.add(match[1]);
     }
+    // Add dependencies due to results of LOGSEQ_QUERY_MACRO_REGEXP and
+    // LOGSEQ_ADVANCED_QUERY_REGEXP
+    const queries = [
+        ...Array.from(content.matchAll(LOGSEQ_QUERY_MACRO_REGEXP), (match) =>
+            runLogseqQuery(match[1]),
+        ),
+        ...Array.from(content.matchAll(LOGSEQ_ADVANCED_QUERY_REGEXP), (match) =>
+            runLogseqQuery(match[1], true),
+        ),
+    ];
+    for (const {results} of await Promise.all(queries)) {
+        for (const result of results) {
+            if (isQueryResultBlock(result)) blockDependency.add(getUUIDFromBlock(result));
+            else if (isQueryResultPage(result)) pageDependency.add(result.name);
+        }
+    }
+    // Add dependencies returned by converter extensions
+    for (const dependency of await getConverterExtensionDependencies(content, format)) {
+        if (dependency.type == "FirstLineOfBlock")
+            firstLineOfBlockDependency.add(dependency.value);
+        else if (dependency.type == "Block") blockDependency.add(dependency.value);
+        else if (dependency.type == "Page") pageDependency.add(dependency.value);
+    }
     return [
         ...Array.from(firstLineOfBlockDependency).map(
             (block) =>
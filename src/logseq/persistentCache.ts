@@ -0,0 +1,147 @@
+/**
+ * This service persists the expensive to compute parts of the caches (direct dependencies of blocks and converted
+ * html) in IndexedDB so that the first sync after restarting Logseq is as fast as the later ones.
+ * Entries are stored per graph and are dropped when the plugin version changes. Block entries are keyed by the
+ * block updatedAt and content and removed through the DB change listener.
+ */
+import "@logseq/libs";
+import _ from "lodash";
+import {LogseqProxy} from "./LogseqProxy";
+import getUUIDFromBlock from "./getUUIDFromBlock";
+import pkg from "../../package.json";
+
+const DB_NAME = "logseq-anki-sync-cache";
+const STORE_NAME = "entries";
+const FLUSH_DELAY = 5000;
+
+let entries = new Map<string, any>();
+let loadedGraph: Promise<string> = null;
+const pendingWrites = new Map<string, any>(); // null value means delete
+
+const isAvailable = () =>
+    typeof indexedDB !== "undefined" && typeof logseq !== "undefined" && logseq.settings != null
+        ? logseq.settings.cacheLogseqAPIv1 !== false
+        : false;
+
+const openDB = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Loads the entries of current graph into memory. Entries of older plugin versions are deleted.
+const load = async (): Promise<string> => {
+    const graphName = _.get(await logseq.App.getCurrentGraph(), "name") || "Default";
+    entries = new Map();
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, "readwrite");
+        const request = transaction
+            .objectStore(STORE_NAME)
+            .openCursor(IDBKeyRange.bound(`${graphName}:`, `${graphName}:\uffff`));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor == null) return;
+            if (_.get(cursor.value, "version") != pkg.version) cursor.delete();
+            else
+                entries.set(
+                    cursor.key.toString().slice(graphName.length + 1),
+                    cursor.value.value,
+                );
+            cursor.continue();
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+    db.close();
+    return graphName;
+};
+
+const getLoadedGraph = (): Promise<string> => {
+    if (loadedGraph == null) {
+        loadedGraph = load();
+        loadedGraph.catch((e) => {
+            console.warn("Failed to load persistent cache", e);
+            loadedGraph = null;
+        });
+    }
+    return loadedGraph;
+};
+
+const flush = async () => {
+    if (pendingWrites.size == 0) return;
+    const graphName = await getLoadedGraph();
+    const writes = [...pendingWrites.entries()];
+    pendingWrites.clear();
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    for (const [key, value] of writes) {
+        if (value == null) store.delete(`${graphName}:${key}`);
+        else store.put({version: pkg.version, value}, `${graphName}:${key}`);
+    }
+    transaction.oncomplete = () => db.close();
+};
+const debouncedFlush = _.debounce(() => flush().catch(console.warn), FLUSH_DELAY);
+
+// -- Cache Operations --
+export const get = async (key: string): Promise<any> => {
+    if (!isAvailable()) return null;
+    try {
+        await getLoadedGraph();
+    } catch (e) {
+        return null;
+    }
+    return entries.has(key) ? _.cloneDeep(entries.get(key)) : null;
+};
+
+export const set = (key: string, value: any): void => {
+    if (!isAvailable()) return;
+    entries.set(key, value);
+    pendingWrites.set(key, value);
+    debouncedFlush();
+};
+
+export const remove = (key: string): void => {
+    if (!entries.has(key)) return;
+    entries.delete(key);
+    pendingWrites.set(key, null);
+    debouncedFlush();
+};
+
+const clear = async () => {
+    debouncedFlush.cancel();
+    pendingWrites.clear();
+    entries = new Map();
+    loadedGraph = null;
+    if (typeof indexedDB === "undefined") return;
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.oncomplete = () => db.close();
+};
+
+// -- Maintain Cache State by using DB.onChanged --
+export const init = () => {
+    LogseqProxy.DB.registerDBChangeListener(async ({blocks}) => {
+        for (const block of blocks) {
+            const uuid = getUUIDFromBlock(block);
+            if (uuid == null) continue;
+            remove(`Block:${uuid.toString().toLowerCase()}`);
+            remove(`FirstLineOfBlock:${uuid.toString().toLowerCase()}`);
+        }
+    });
+    LogseqProxy.Settings.registerSettingsChangeListener((newSettings, oldSettings) => {
+        if (!newSettings.cacheLogseqAPIv1) clear().catch(console.warn);
+    });
+    LogseqProxy.App.registerGraphChangeListener(() => {
+        flush().catch(console.warn);
+        entries = new Map();
+        loadedGraph = null;
+    });
+    window.addEventListener("syncLogseqToAnkiComplete", () => {
+        debouncedFlush.flush();
+    });
+};
@@ -0,0 +1,97 @@
+import _ from "lodash";
+import {LogseqProxy} from "./LogseqProxy";
+import getUUIDFromBlock from "./getUUIDFromBlock";
+
+const MAX_QUERY_RESULTS = 100;
+
+// Results are shared by the dependency and the conversion passes of the sync. They are dropped
+// when the graph changes and when the sync completes.
+const queryResultsCache = new Map<string, Promise<LogseqQueryResult>>();
+if (typeof window !== "undefined") {
+    window.addEventListener("syncLogseqToAnkiComplete", () => queryResultsCache.clear());
+    LogseqProxy.DB.registerDBChangeListener(() => queryResultsCache.clear());
+}
+
+export type LogseqQueryResult = {
+    title: string;
+    results: Array<any>; // Blocks, pages or scalar values
+};
+
+export function isQueryResultBlock(result: any): boolean {
+    return (
+        result != null &&
+        typeof result == "object" &&
+        result.content != null &&
+        getUUIDFromBlock(result) != null
+    );
+}
+
+export function isQueryResultPage(result: any): boolean {
+    return (
+        result != null &&
+        typeof result == "object" &&
+        result.content == null &&
+        result.name != null
+    );
+}
+
+// Returns the value of the key in the edn map of advanced query
+// (e.g. the [...] or (...) after :query)
+function getEdnMapValue(ednMap: string, key: string): string | null {
+    const keyMatch = ednMap.match(new RegExp(`${key}(?=[\\s\\[\\(\\{])`));
+    if (keyMatch == null) return null;
+    const start =
+        ednMap.slice(keyMatch.index + key.length).search(/\S/) + keyMatch.index + key.length;
+    if (!"[({".includes(ednMap[start])) return null;
+    let depth = 0,
+        inString = false;
+    for (let i = start; i < ednMap.length; i++) {
+        const char = ednMap[i];
+        if (inString) {
+            if (char == "\\") i++;
+            else if (char == '"') inString = false;
+        } else if (char == '"') inString = true;
+        else if ("[({".includes(char)) depth++;
+        else if ("])}".includes(char) && --depth == 0) return ednMap.slice(start, i + 1);
+    }
+    return null;
+}
+
+/**
+ * Runs simple query ({{query ...}} macro) or advanced query
+ * (edn map inside #+BEGIN_QUERY ... #+END_QUERY).
+ * Advanced queries are run using datascript query. Hence, :inputs and rules are not supported.
+ */
+export default async function runLogseqQuery(
+    query: string,
+    isAdvancedQuery = false,
+): Promise<LogseqQueryResult> {
+    if (typeof window === "undefined") return executeLogseqQuery(query, isAdvancedQuery);
+    const cacheKey = JSON.stringify([query, isAdvancedQuery]);
+    if (!queryResultsCache.has(cacheKey)) {
+        const result = executeLogseqQuery(query, isAdvancedQuery);
+        result.catch(() => queryResultsCache.delete(cacheKey));
+        queryResultsCache.set(cacheKey, result);
+    }
+    return _.cloneDeep(await queryResultsCache.get(cacheKey));
+}
+
+async function executeLogseqQuery(
+    query: string,
+    isAdvancedQuery: boolean,
+): Promise<LogseqQueryResult> {
+    if (!isAdvancedQuery) {
+        query = query.trim();
+        return {
+            title: query,
+            results: _.take(await LogseqProxy.DB.q(query), MAX_QUERY_RESULTS),
+        };
+    }
+    const title = _.get(query.match(/:title\s+"((?:[^"\\]|\\.)*)"/), 1, "Query");
+    const ednQuery = getEdnMapValue(query, ":query");
+    let results = [];
+    if (ednQuery && ednQuery.startsWith("["))
+        results = _.flatten((await LogseqProxy.DB.datascriptQuery(ednQuery)) || []);
+    else if (ednQuery && ednQuery.startsWith("(")) results = await LogseqProxy.DB.q(ednQuery);
+    return {title, results: _.take(results, MAX_QUERY_RESULTS)};
+}
@@ -0,0 +1,227 @@
+import {Note} from "./Note";
+import "@logseq/libs";
+import {escapeClozesAndMacroDelimiters, getLogseqBlockPropSafe} from "../utils/utils";
+import _ from "lodash";
+import hashSum from "hash-sum";
+import {LogseqProxy} from "../logseq/LogseqProxy";
+import {convertToHTMLFile, HTMLFile} from "../logseq/LogseqToHtmlConverter";
+import getUUIDFromBlock from "../logseq/getUUIDFromBlock";
+
+type CardTable = {headers: string[]; rows: string[][]};
+
+/**
+ * Every row of a table inside a #card-table block is a separate note.
+ * The columns shown on front / back are picked using card-table-front:: and card-table-back:: properties
+ * (comma separated column headers). The row key (card-table-key:: column, defaults to first column) is part of
+ * the note type so that rows can be added or reordered without resetting cards.
+ */
+export class CardTableNote extends Note {
+    public type = "card_table";
+    public headers: string[];
+    public row: string[];
+    protected supportsAnkiModel = true;
+
+    public constructor(
+        uuid: string,
+        content: string,
+        format: string,
+        properties: any,
+        page: any,
+        tagIds: number[] = [],
+        headers: string[] = [],
+        row: string[] = [],
+        rowKey: string = null,
+    ) {
+        super(uuid, content, format, properties, page, tagIds);
+        this.headers = headers;
+        this.row = row;
+        if (rowKey != null) this.type = `card_table_${rowKey}`;
+    }
+
+    public static initLogseqOperations = () => {
+        logseq.Editor.registerSlashCommand("Card Table", [
+            [
+                "editor/input",
+                `#card-table\ncard-table-front:: \ncard-table-back:: \n| Front | Back |\n| --- | --- |\n|  |  |`,
+            ],
+            ["editor/clear-current-slash"],
+        ]);
+        logseq.provideStyle(`
+            .page-reference[data-ref=card-table], a[data-ref=card-table] {
+                opacity: .3;
+            }
+        `);
+        LogseqProxy.Editor.createPageSilentlyIfNotExists("card-table");
+    };
+
+    // Parses the first markdown / org table in the content
+    private static parseTable(content: string): CardTable {
+        const splitRow = (line: string) =>
+            line
+                .trim()
+                .replace(/^\|/, "")
+                .replace(/(?<!\\)\|$/, "")
+                .split(/(?<!\\)\|/)
+                .map((cell) => cell.trim().replaceAll("\\|", "|"));
+        const tableLines = [];
+        for (const line of content.split("\n")) {
+            if (line.trim().startsWith("|")) tableLines.push(line);
+            else if (tableLines.length > 0) break;
+        }
+        const isSeparator = (line: string) => /^\s*\|?[\s:|+-]*-[\s:|+-]*$/.test(line);
+        const [headerLine, ...otherLines] = tableLines;
+        if (headerLine == null) return {headers: [], rows: []};
+        return {
+            headers: splitRow(headerLine),
+            rows: otherLines
+                .filter((line) => !isSeparator(line))
+                .map(splitRow)
+                .filter((row) => row.some((cell) => cell != "")),
+        };
+    }
+
+    // Columns selected using the property (matched case-insensitively). Returns null if the property is not set.
+    private getPropertyColumns(property: string): number[] {
+        return this.getColumns(getLogseqBlockPropSafe(this, `properties.${property}`));
+    }
+
+    // Columns whose headers are in the comma separated value. Returns null for empty value.
+    private getColumns(value: any): number[] {
+        if (value == null || value.toString().trim() == "") return null;
+        const columnNames = _.flatten([value])
+            .join(",")
+            .split(",")
+            .map((name) => name.trim().toLowerCase())
+            .filter((name) => name != "");
+        return this.headers
+            .map((header, index) => (columnNames.includes(header.toLowerCase()) ? index : null))
+            .filter((index) => index != null);
+    }
+
+    private getFrontAndBackColumns(): [number[], number[]] {
+        const frontColumns = this.getPropertyColumns("card-table-front") || [0];
+        const backColumns =
+            this.getPropertyColumns("card-table-back") ||
+            _.range(this.headers.length).filter((index) => !frontColumns.includes(index));
+        return [frontColumns, backColumns];
+    }
+
+    // The header is used as the label of every cell
+    private getColumnsMarkdown(columns: number[]): string {
+        return columns
+            .filter((index) => (this.row[index] || "") != "")
+            .map(
+                (index) =>
+                    `**${this.headers[index] || ""}**: ${escapeClozesAndMacroDelimiters(
+                        this.row[index],
+                    )}`,
+            )
+            .join("\n");
+    }
+
+    public async getClozedContentHTML(): Promise<HTMLFile> {
+        const [frontColumns, backColumns] = this.getFrontAndBackColumns();
+        let clozedContent = this.getColumnsMarkdown(frontColumns);
+        const backMarkdown = this.getColumnsMarkdown(backColumns);
+        if (backMarkdown != "") clozedContent += `\n{{c1::${backMarkdown}}}`;
+        return convertToHTMLFile(clozedContent, "markdown");
+    }
+
+    // anki-field-<Field>:: <column headers> maps columns to fields. Defaults to Front / Back.
+    public async getAnkiFields(): Promise<{fields: Record<string, string>; assets: Set<string>}> {
+        const assets = new Set<string>();
+        const fields: Record<string, string> = {};
+        const addFieldContent = async (fieldName: string, columns: number[]) => {
+            const fieldHTMLFile = await convertToHTMLFile(
+                this.getColumnsMarkdown(columns),
+                "markdown",
+            );
+            fieldHTMLFile.assets.forEach((asset) => assets.add(asset));
+            fields[fieldName] = fieldHTMLFile.html;
+        };
+        for (const [fieldName, columns] of this.getAnkiFieldProperties())
+            await addFieldContent(fieldName, this.getColumns(columns) || []);
+        if (Object.keys(fields).length === 0) {
+            const [frontColumns, backColumns] = this.getFrontAndBackColumns();
+            await addFieldContent("Front", frontColumns);
+            await addFieldContent("Back", backColumns);
+        }
+        return {fields, assets};
+    }
+
+    public static async getNotesFromLogseqBlocks(
+        scopeQueryClause = "",
+    ): Promise<CardTableNote[]> {
+        const cardTable_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
+        [:find (pull ?b [*])
+        :where
+        ${scopeQueryClause}
+        [?p :block/name "card-table"]
+        [?b :block/refs ?p]
+        ]`);
+        const blocks: any = [...cardTable_blocks];
+        let tableNotes = await Promise.all(
+            blocks.map(async (block) => {
+                const uuid = getUUIDFromBlock(block[0]);
+                const page = block[0].page
+                    ? await LogseqProxy.Editor.getPage(block[0].page.id)
+                    : {};
+                block = block[0];
+                if (!block.content) {
+                    block = await LogseqProxy.Editor.getBlock(uuid);
+                }
+                if (block)
+                    return new CardTableNote(
+                        uuid,
+                        block.content,
+                        block.format,
+                        block.properties || {},
+                        page,
+                        _.get(block, "refs", []).map((ref) => ref.id),
+                    );
+                else {
+                    return null;
+                }
+            }),
+        );
+        // Filter the blocks before splitting them into rows (removeUnwantedNotes keeps one note per block)
+        tableNotes = (await Note.removeUnwantedNotes(tableNotes)) as CardTableNote[];
+
+        const notes: CardTableNote[] = [];
+        for (const tableNote of tableNotes) {
+            const {headers, rows} = CardTableNote.parseTable(tableNote.content);
+            const keyColumn = Math.max(
+                headers.findIndex(
+                    (header) =>
+                        header.toLowerCase() ==
+                        getLogseqBlockPropSafe(tableNote, "properties.card-table-key", "")
+                            .toString()
+                            .trim()
+                            .toLowerCase(),
+                ),
+                0,
+            );
+            const rowKeyCounts = {};
+            for (const row of rows) {
+                let rowKey = hashSum((row[keyColumn] || "").trim().toLowerCase());
+                rowKeyCounts[rowKey] = (rowKeyCounts[rowKey] || 0) + 1;
+                if (rowKeyCounts[rowKey] > 1) rowKey += `_${rowKeyCounts[rowKey]}`; // Duplicate keys
+                notes.push(
+                    new CardTableNote(
+                        tableNote.uuid,
+                        tableNote.content,
+                        tableNote.format,
+                        tableNote.properties,
+                        tableNote.page,
+                        tableNote.tagIds,
+                        headers,
+                        row,
+                        rowKey,
+                    ),
+                );
+            }
+        }
+        console.log("CardTableNote Loaded");
+        return notes;
+    }
+}
@@ -213,13 +213,16 @@ export class ClozeNote extends Note {
         return convertToHTMLFile(clozedContent, this.format);
     }
 
-    public static async getNotesFromLogseqBlocks(): Promise<ClozeNote[]> {
+    public static async getNotesFromLogseqBlocks(
+        scopeQueryClause = "",
+    ): Promise<ClozeNote[]> {
         // Get blocks with Anki or Logseq cloze macro syntax
         const clozeRegex = /{{(c[1-9]|cloze[1-9]?) .*}}/;
         const clozePattern = clozeRegex.source.replace(/\\/g, "\\\\");
         const macroCloze_blocks = await LogseqProxy.DB.datascriptQuery(`
         [:find (pull ?b [*])
         :where
+        ${scopeQueryClause}
         [?b :block/content ?content]
         [(re-pattern "${clozePattern}") ?regex]
         [(re-find ?regex ?content)]
@@ -228,6 +231,7 @@ export class ClozeNote extends Note {
         const replaceCloze_blocks = await LogseqProxy.DB.datascriptQuery(`
         [:find (pull ?b [*])
         :where
+          ${scopeQueryClause}
           [?b :block/properties ?p]
           (or
             [(get ?p :replacecloze)]
@@ -238,6 +242,7 @@ export class ClozeNote extends Note {
         const orgCloze_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
         [:find (pull ?b [*])
         :where
+        ${scopeQueryClause}
         [?b :block/content ?content]
         [(re-pattern "#\\\\+BEGIN_(CLOZE)( .*)?\\\\n((.|\\\\n)*?)#\\\\+END_\\\\1") ?regex]
         [(re-find ?regex ?content)]
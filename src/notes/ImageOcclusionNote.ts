@@ -18,6 +18,7 @@ import {
 import {LogseqProxy} from "../logseq/LogseqProxy";
 import {convertToHTMLFile, HTMLFile, processProperties} from "../logseq/LogseqToHtmlConverter";
 import {
+    OcclusionConfig,
     OcclusionData,
     OcclusionEditor,
     OcclusionElement,
@@ -104,7 +105,11 @@ export class ImageOcclusionNote extends Note {
                     "elements",
                     [],
                 ) as OcclusionElement[],
-                {},
+                _.get(
+                    imgToOcclusionDataHashMap[selectedImage],
+                    "config",
+                    {},
+                ) as OcclusionConfig,
             );
             if (newOcclusionData && typeof newOcclusionData == "object") {
                 imgToOcclusionDataHashMap[selectedImage] = newOcclusionData;
@@ -139,31 +144,58 @@ export class ImageOcclusionNote extends Note {
             imgToOcclusionDataHashMap,
             block_images,
         );
-        const clozes = new Set();
+        imgToOcclusionDataHashMap =
+            ImageOcclusionNote.applyOcclusionGroups(imgToOcclusionDataHashMap);
+        // Labels of the masks are the answer of the cloze and hints are the cloze hint
+        const clozes = new Map<number, {labels: Set<string>; hints: Set<string>}>();
         for (const image in imgToOcclusionDataHashMap) {
             const occlusionElements = imgToOcclusionDataHashMap[image].elements;
             block_images = block_images.map((image) => image.split("?")[0]);
             if (block_images.includes(image)) {
                 for (const occlusion of occlusionElements) {
-                    clozes.add(occlusion.cId);
+                    if (!clozes.has(occlusion.cId))
+                        clozes.set(occlusion.cId, {labels: new Set(), hints: new Set()});
+                    if (occlusion.label) clozes.get(occlusion.cId).labels.add(occlusion.label);
+                    if (occlusion.hint) clozes.get(occlusion.cId).hints.add(occlusion.hint);
                 }
             }
         }
+        const escapeOcclusionText = (text: string) =>
+            escapeClozesAndMacroDelimiters(_.escape(text)).replace(/::/g, ":\u{2063}:");
+        // Labels and hints are only shown using clozes (front side must not contain the labels)
+        const imgToOcclusionDataWithoutLabels = _.mapValues(
+            imgToOcclusionDataHashMap,
+            (occlusionData) => ({
+                ...occlusionData,
+                elements: occlusionData.elements.map((element) =>
+                    _.omit(element, ["label", "hint"]),
+                ),
+            }),
+        );
         clozedContent = escapeClozesAndMacroDelimiters(clozedContent);
         clozedContent += `\n<div class="hidden">
         ${Array.from(clozes)
-            .map((cloze) => `{{c${cloze}:: ::<span id="c${cloze}"></span>}}`)
+            .map(([cloze, {labels, hints}]) => {
+                const label = escapeOcclusionText(Array.from(labels).join(", ")) || " ";
+                const hint = escapeOcclusionText(Array.from(hints).join(", "));
+                return `{{c${cloze}::<span class="occlusion-cid" data-cid="${cloze}">${label}</span>::<span id="c${cloze}">${hint}</span>}}`;
+            })
             .join("")}
-        <div id="imgToOcclusionDataHashMap">${JSON.stringify(imgToOcclusionDataHashMap)}</div>
+        <div id="imgToOcclusionDataHashMap">${JSON.stringify(
+            imgToOcclusionDataWithoutLabels,
+        )}</div>
         <img id="localImgBasePath" src="_logseq_anki_sync.css"></img>
         </div>`;
         return convertToHTMLFile(clozedContent, this.format);
     }
 
-    public static async getNotesFromLogseqBlocks(): Promise<ImageOcclusionNote[]> {
+    public static async getNotesFromLogseqBlocks(
+        scopeQueryClause = "",
+    ): Promise<ImageOcclusionNote[]> {
         let blocks: any = await LogseqProxy.DB.datascriptQuery(`
         [:find (pull ?b [*])
         :where
+          ${scopeQueryClause}
           [?b :block/properties ?p]
           [(get ?p :occlusion)]
         ]`);
@@ -323,6 +355,25 @@ export class ImageOcclusionNote extends Note {
         return newImgToOcclusionDataHashMap;
     }
 
+    // Masks of the same group are part of a single card.
+    // They use the cloze id of the first mask of the group.
+    private static applyOcclusionGroups(
+        imgToOcclusionDataHashMap: ImageToOcclusionDataHashMap,
+    ): ImageToOcclusionDataHashMap {
+        return _.mapValues(imgToOcclusionDataHashMap, (occlusionData) => {
+            const groupClozeIds = {};
+            for (const element of occlusionData.elements)
+                if (element.group && groupClozeIds[element.group] == null)
+                    groupClozeIds[element.group] = element.cId;
+            return {
+                ...occlusionData,
+                elements: occlusionData.elements.map((element) =>
+                    element.group ? {...element, cId: groupClozeIds[element.group]} : element,
+                ),
+            };
+        });
+    }
+
     private static upgradeProperties(hashMap: any): ImageToOcclusionDataHashMap {
         const newHashMap: ImageToOcclusionDataHashMap = {};
         for (const [key, value] of Object.entries(hashMap)) {
@@ -336,6 +387,20 @@ export class ImageOcclusionNote extends Note {
                 // New format.
                 newHashMap[key] = value as OcclusionData;
             }
+            // Occlusions created before shapes were supported are rectangles
+            if (newHashMap[key])
+                newHashMap[key].elements = newHashMap[key].elements.map((element) => ({
+                    shape: "rect",
+                    ...element,
+                }));
+            // Occlusions created before reveal modes were supported only have hideAllTestOne
+            if (newHashMap[key] && _.get(newHashMap[key], "config.mode") == null) {
+                const {hideAllTestOne, ...config} = newHashMap[key].config || {};
+                newHashMap[key].config = {
+                    ...config,
+                    mode: hideAllTestOne ? "hide-all-guess-one" : "hide-one-guess-one",
+                };
+            }
         }
         return newHashMap;
     }
@@ -23,6 +23,8 @@ export class MultilineCardNote extends Note {
     public type = "multiline_card";
     public children: ExtendedBlockEntity[];
     public tags: string[];
+    public isCardGroupChild = false; // Whether the block is a card due to a #card-group parent
+    protected supportsAnkiModel = true;
     public constructor(
         uuid: string,
         content: string,
@@ -160,26 +162,25 @@ anki-field-Steps:: steps`],
         return tags.map(tag => String(tag));
     }
 
-    private async getFieldContent(fieldMapping: string): Promise<string> {
+    private async getFieldContent(fieldMapping: string): Promise<HTMLFile> {
         // Handle special field mappings
         switch (fieldMapping) {
             case 'content':
-                const contentHtml = await convertToHTMLFile(this.content, this.format);
-                return contentHtml.html;
+                return await convertToHTMLFile(this.content, this.format);
             case 'children':
-                const childrenHtml = await this.getChildrenContent();
-                return childrenHtml;
+                return await this.getChildrenContent();
             default:
                 // Check if it's a property value
                 if (this.properties[fieldMapping]) {
-                    return this.properties[fieldMapping].toString();
+                    return {html: this.properties[fieldMapping].toString(), assets: new Set(), tags: []};
                 }
-                return '';
+                return {html: '', assets: new Set(), tags: []};
         }
     }
 
-    private async getChildrenContent(): Promise<string> {
+    private async getChildrenContent(): Promise<HTMLFile> {
         const maxDepth = this.getChildrenMaxDepth();
+        const assets = new Set<string>();
         
         const getChildrenListHTML = async (
             childrenList: ExtendedBlockEntity[],
@@ -199,6 +200,7 @@ anki-field-Steps:: steps`],
                     sanitizedChildContent,
                     child.format,
                 );
+                sanitizedChildHTMLFile.assets.forEach((asset) => assets.add(asset));
                 let sanitizedChildHTML = sanitizedChildHTMLFile.html;
                 
                 if (child.children?.length > 0) {
@@ -211,78 +213,69 @@ anki-field-Steps:: steps`],
             return childrenListHTML;
         };
 
-        return await getChildrenListHTML(this.children);
+        return {html: await getChildrenListHTML(this.children), assets, tags: []};
     }
 
-    public async getClozedContentHTML(): Promise<HTMLFile> {
+    public async getAnkiFields(): Promise<{fields: Record<string, string>; assets: Set<string>}> {
         const assets = new Set<string>();
-        const tags: string[] = [];
+        const addFieldContent = async (fieldName: string, mapping: string) => {
+            const fieldHTMLFile = await this.getFieldContent(mapping);
+            fieldHTMLFile.assets.forEach((asset) => assets.add(asset));
+            fields[fieldName] = fieldHTMLFile.html;
+        };
 
         // Get field content based on mappings
-        const fieldContent: Record<string, string> = {};
-        for (const [key, value] of Object.entries(this.properties)) {
-            if (key.startsWith("anki-field-")) {
-                const fieldName = key.replace("anki-field-", "");
-                const mapping = value as string;
-                fieldContent[fieldName] = await this.getFieldContent(mapping);
-            }
-        }
-
-        // Get main content
-        let mainContent: string;
-        const direction = this.getCardDirection();
-        if (direction === "<-" || direction === "<->") {
-            // For reversed cards, swap content and children
-            mainContent = await this.getFieldContent("children");
-        } else {
-            mainContent = await this.getFieldContent("content");
+        const fields: Record<string, string> = {};
+        for (const [fieldName, mapping] of this.getAnkiFieldProperties()) {
+            await addFieldContent(fieldName, mapping);
         }
 
         // If no fields specified, use defaults based on model type
-        const ankiModel = this.properties["anki-model"] || "Basic";
-        if (Object.keys(fieldContent).length === 0) {
-            if (ankiModel.toLowerCase().includes("cloze")) {
-                fieldContent["Text"] = mainContent;
+        if (Object.keys(fields).length === 0) {
+            const direction = this.getCardDirection();
+            const isReversed = direction === "<-" || direction === "<->";
+            if (this.getAnkiModelName().toLowerCase().includes("cloze")) {
+                await addFieldContent("Text", isReversed ? "children" : "content");
             } else {
-                fieldContent["Front"] = mainContent;
-                fieldContent["Back"] = await this.getFieldContent("children");
+                await addFieldContent("Front", isReversed ? "children" : "content");
+                await addFieldContent("Back", "children");
             }
         }
 
-        // Store custom field data in hidden divs
-        const html = `
-            <div class="anki-custom-data" style="display:none">
-                <div class="anki-model">${ankiModel}</div>
-                <div class="anki-fields">${JSON.stringify(fieldContent)}</div>
-            </div>
-            ${mainContent}
-        `;
+        return {fields, assets};
+    }
 
-        return {
-            html,
-            assets,
-            tags
-        };
+    public async getClozedContentHTML(): Promise<HTMLFile> {
+        const direction = this.getCardDirection();
+        if (direction === "<-" || direction === "<->") {
+            // For reversed cards, swap content and children
+            return await this.getFieldContent("children");
+        }
+        return await this.getFieldContent("content");
     }
 
     public static async getNotesFromLogseqBlocks(
         otherNotes: Array<Note>,
+        scopeQueryClause = "",
     ): Promise<MultilineCardNote[]> {
         const logseqCard_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
         [:find (pull ?b [*])
         :where
+        ${scopeQueryClause}
         [?p :block/name "card"]
         [?b :block/refs ?p]
         ]`);
         const flashCard_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
         [:find (pull ?b [*])
         :where
+        ${scopeQueryClause}
         [?p :block/name "flashcard"]
         [?b :block/refs ?p]
         ]`);
         let logseqCardGroup_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
         [:find (pull ?b [*])
         :where
+        ${scopeQueryClause}
         [?r :block/name "card-group"]
         [?p :block/refs ?r]
         [?b :block/parent ?p]
@@ -320,7 +313,7 @@ anki-field-Steps:: steps`],
                     const tags = await MultilineCardNote.getRelevantTags(
                         fullBlock.refs?.map((ref) => ref.id) || []
                     );
-                    return new MultilineCardNote(
+                    const note = new MultilineCardNote(
                         uuid,
                         fullBlock.content,
                         fullBlock.format,
@@ -331,6 +324,8 @@ anki-field-Steps:: steps`],
                         fullBlock.children || [],
                         fullBlock.refs?.map((ref) => ref.id) || []
                     );
+                    note.isCardGroupChild = blockEntity.tagsFromParentCardGroup != null;
+                    return note;
                 } else {
                     return null;
                 }
@@ -339,12 +334,23 @@ anki-field-Steps:: steps`],
         console.log("MultilineCardNote Loaded");
         notes = await Note.removeUnwantedNotes(notes);
         notes = _.filter(notes, (note) => {
-            // Retain only blocks whose children count > 0 or direction is expictly specifed or no other note type is being generated from that block
-            return (
+            const isDirectionSpecified =
                 _.get(note, "properties.direction") ||
                 note.tags.includes("forward") ||
                 note.tags.includes("bidirectional") ||
-                note.tags.includes("reversed") ||
+                note.tags.includes("reversed");
+            // Arrow lines in children of #card-group blocks are swift arrow cards instead
+            if (
+                note.isCardGroupChild &&
+                !isDirectionSpecified &&
+                _.find(otherNotes, (otherNote) =>
+                    otherNote.uuid == note.uuid && otherNote.type.startsWith("swift_arrow"),
+                )
+            )
+                return false;
+            // Retain only blocks whose children count > 0 or direction is expictly specifed or no other note type is being generated from that block
+            return (
+                isDirectionSpecified ||
                 note.children.length > 0 ||
                 !_.find(otherNotes, {uuid: note.uuid})
             );
@@ -0,0 +1,128 @@
+import {Note} from "./Note";
+import "@logseq/libs";
+import _ from "lodash";
+import {convertToHTMLFile, HTMLFile} from "../logseq/LogseqToHtmlConverter";
+import {escapeClozesAndMacroDelimiters, getLogseqBlockPropSafe} from "../utils/utils";
+import {LogseqProxy} from "../logseq/LogseqProxy";
+import type {BlockEntity} from "@logseq/libs/dist/LSPlugin.user";
+import {DependencyEntity} from "../logseq/getLogseqContentDirectDependencies";
+import getUUIDFromBlock from "../logseq/getUUIDFromBlock";
+
+const CORRECT_TAG_REGEXP = /(^|\s)#(correct|\[\[correct\]\])(?=\s|$)/gi;
+
+/**
+ * Multiple choice question for a #mcq block. The children are the options and the correct ones are marked
+ * using correct:: property or #correct tag.
+ * The options are shuffled and graded by the card template js (see _logseq_anki_sync_front.js and
+ * _logseq_anki_sync_back.js). The ids of correct options are put inside a hidden cloze so that they are only
+ * available on back side.
+ */
+export class MultipleChoiceNote extends Note {
+    public type = "mcq";
+    public children: BlockEntity[];
+
+    public constructor(
+        uuid: string,
+        content: string,
+        format: string,
+        properties: any,
+        page: any,
+        tagIds: number[] = [],
+        children: BlockEntity[] = [],
+    ) {
+        super(uuid, content, format, properties, page, tagIds);
+        this.children = children;
+    }
+
+    public static initLogseqOperations = () => {
+        logseq.provideStyle(`
+            .page-reference[data-ref=mcq], a[data-ref=mcq],
+            .page-reference[data-ref=correct], a[data-ref=correct] {
+                opacity: .3;
+            }
+        `);
+        LogseqProxy.Editor.createPageSilentlyIfNotExists("mcq");
+    };
+
+    private static isCorrectOption(option: BlockEntity): boolean {
+        const correct = getLogseqBlockPropSafe(option, "properties.correct");
+        if (correct != null && correct !== "")
+            return !["false", "no", "0"].includes(correct.toString().trim().toLowerCase());
+        return new RegExp(CORRECT_TAG_REGEXP.source, "i").test(_.get(option, "content", ""));
+    }
+
+    private getOptions(): BlockEntity[] {
+        return this.children.filter(
+            (child) => _.get(child, "content", "").replace(CORRECT_TAG_REGEXP, "").trim() != "",
+        );
+    }
+
+    public async getClozedContentHTML(): Promise<HTMLFile> {
+        const contentHTMLFile = await convertToHTMLFile(
+            escapeClozesAndMacroDelimiters(this.content),
+            this.format,
+        );
+        const assets = new Set<string>(contentHTMLFile.assets);
+        const correctOptionIds = [];
+        let html = `${contentHTMLFile.html}\n<ul class="mcq-options">`;
+        for (const [index, option] of this.getOptions().entries()) {
+            if (MultipleChoiceNote.isCorrectOption(option)) correctOptionIds.push(index);
+            const optionContent = escapeClozesAndMacroDelimiters(
+                _.get(option, "content", "").replace(CORRECT_TAG_REGEXP, "$1"),
+            );
+            const optionHTMLFile = await convertToHTMLFile(optionContent, option.format);
+            optionHTMLFile.assets.forEach((asset) => assets.add(asset));
+            html += `\n<li class="mcq-option" data-option="${index}"><label><input type="checkbox" class="mcq-checkbox"/><span class="mcq-option-content">${optionHTMLFile.html}</span></label></li>`;
+        }
+        html += `</ul>`;
+        html += `\n<div class="hidden">{{c1::<span id="mcq-answer-key">${correctOptionIds.join(
+            ",",
+        )}</span>}}</div>`;
+        return {html, assets, tags: contentHTMLFile.tags};
+    }
+
+    public getBlockDependencies(): DependencyEntity[] {
+        return [this.uuid, ...this.children.map((child) => child.uuid)].map(
+            (block) => ({type: "Block", value: block}) as DependencyEntity,
+        );
+    }
+
+    public static async getNotesFromLogseqBlocks(
+        scopeQueryClause = "",
+    ): Promise<MultipleChoiceNote[]> {
+        const mcq_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
+        [:find (pull ?b [*])
+        :where
+        ${scopeQueryClause}
+        [?p :block/name "mcq"]
+        [?b :block/refs ?p]
+        ]`);
+        const blocks: any = [...mcq_blocks];
+        const notes = await Promise.all(
+            blocks.map(async (block) => {
+                const uuid = getUUIDFromBlock(block[0]);
+                const page = block[0].page
+                    ? await LogseqProxy.Editor.getPage(block[0].page.id)
+                    : {};
+                const fullBlock = await LogseqProxy.Editor.getBlock(uuid, {
+                    includeChildren: true,
+                });
+                if (fullBlock)
+                    return new MultipleChoiceNote(
+                        uuid,
+                        fullBlock.content,
+                        fullBlock.format,
+                        fullBlock.properties || {},
+                        page,
+                        ((fullBlock.refs || []) as Array<{id: number}>).map((ref) => ref.id),
+                        (fullBlock.children || []) as BlockEntity[],
+                    );
+                else {
+                    return null;
+                }
+            }),
+        );
+        console.log("MultipleChoiceNote Loaded");
+        return (await Note.removeUnwantedNotes(notes)) as MultipleChoiceNote[];
+    }
+}
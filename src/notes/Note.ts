@@ -5,6 +5,7 @@ import {DependencyEntity} from "../logseq/getLogseqContentDirectDependencies";
 import _ from "lodash";
 import {LogseqProxy} from "../logseq/LogseqProxy";
 import {NoteUtils} from "./NoteUtils";
+import {InheritanceResolver} from "../logseq/InheritanceResolver";
 import {getLogseqBlockPropSafe} from "../utils/utils";
 
 export abstract class Note {
@@ -17,6 +18,7 @@ export abstract class Note {
     public ankiId: number;
     public tagIds: number[];
     static ankiNoteManager: LazyAnkiNoteManager;
+    protected supportsAnkiModel = false; // Whether the note type can use anki-model:: property
 
     public constructor(
         uuid: string,
@@ -42,6 +44,31 @@ export abstract class Note {
 
     public abstract getClozedContentHTML(): Promise<HTMLFile>;
 
+    // Name of the anki note type the note should be written into (null means the graph's model)
+    public getAnkiModelName(): string | null {
+        if (!this.supportsAnkiModel) return null;
+        const ankiModel = getLogseqBlockPropSafe(this, "properties.anki-model");
+        if (ankiModel == null || ankiModel.toString().trim() == "") return null;
+        return ankiModel.toString().trim();
+    }
+
+    // Returns the [field name, value] pairs of the anki-field-<Field>:: properties
+    // Logseq gives the property keys camelCased (ankiFieldFront), hence both forms are matched.
+    protected getAnkiFieldProperties(): Array<[string, string]> {
+        const fieldProperties: Array<[string, string]> = [];
+        for (const [key, value] of Object.entries(this.properties || {})) {
+            const match = key.match(/^anki-field-(.+)$/i) || key.match(/^ankiField(.+)$/);
+            if (match && value != null)
+                fieldProperties.push([match[1], value.toString().trim()]);
+        }
+        return fieldProperties;
+    }
+
+    // Fields of the anki note type returned by getAnkiModelName
+    public async getAnkiFields(): Promise<{fields: Record<string, string>; assets: Set<string>}> {
+        return {fields: {}, assets: new Set()};
+    }
+
     public getContent(): string {
         return this.content;
     }
@@ -50,7 +77,7 @@ export abstract class Note {
         if (this.ankiId) return this.ankiId;
         const ankiNotesArr = Array.from(Note.ankiNoteManager.noteInfoMap.values());
         const filteredankiNotesArr = ankiNotesArr.filter(
-            (note) => note.fields["uuid-type"].value == `${this.uuid}-${this.type}`,
+            (note) => note.uuidType == `${this.uuid}-${this.type}`,
         );
         if (filteredankiNotesArr.length == 0) this.ankiId = null;
         else this.ankiId = parseInt(filteredankiNotesArr[0].noteId);
@@ -84,45 +111,11 @@ export abstract class Note {
                 _.get(note, "uuid") == null
             );
         });
+        const resolvedConfigs = await InheritanceResolver.resolveAll(newNotes);
         newNotes = (
             await Promise.all(
-                newNotes.map(async (note) => {
-                    let isAnkiSyncDisabled = null;
-                    try {
-                        let parentBlockUUID : string | number = note.uuid;
-                        while(parentBlockUUID != null) {
-                            const parentBlock = await LogseqProxy.Editor.getBlock(parentBlockUUID);
-                            if (parentBlock == null) break;
-                            if ([true, "true"].includes(getLogseqBlockPropSafe(parentBlock, 'properties.disable-anki-sync'))) {
-                                isAnkiSyncDisabled = true;
-                                break;
-                            }
-                            else if ([false, "false"].includes(getLogseqBlockPropSafe(parentBlock, 'properties.disable-anki-sync'))) {
-                                isAnkiSyncDisabled = false;
-                                break;
-                            }
-                            parentBlockUUID = _.get(parentBlock, 'parent.id', null);
-                        }
-                    } catch (e) { console.error(e); }
-
-                    if (isAnkiSyncDisabled === null) {
-                        try {
-                            let parentNamespaceID : number = note.page.id;
-                            while(parentNamespaceID != null) {
-                                const parentNamespacePage = await LogseqProxy.Editor.getPage(parentNamespaceID);
-                                if (parentNamespacePage == null) break;
-                                if ([true, "true"].includes(getLogseqBlockPropSafe(parentNamespacePage, 'properties.disable-anki-sync'))) {
-                                    isAnkiSyncDisabled = true;
-                                    break;
-                                }
-                                else if ([false, "false"].includes(getLogseqBlockPropSafe(parentNamespacePage, 'properties.disable-anki-sync'))) {
-                                    isAnkiSyncDisabled = false;
-                                    break;
-                                }
-                                parentNamespaceID = _.get(parentNamespacePage, 'namespace.id', null);
-                            }
-                        } catch (e) { console.error(e); }
-                    }
+                newNotes.map(async (note, i) => {
+                    let isAnkiSyncDisabled = resolvedConfigs[i].isAnkiSyncDisabled;
 
                     // TODO: Remove line 126-129 after a few releases
                     if ((await NoteUtils.matchTagNamesWithTagIds(note.tagIds, ["no-anki-sync"])
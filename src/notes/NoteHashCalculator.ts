@@ -2,7 +2,7 @@
  * This class is responsible for calculating the hash of a note using the uuid of note's block dependencies.
  * In order to calculate the hash of a note, other than note's complete block dependencies, it also considers:
  * 1. Current / Future anki Fields (passed as argument)
- * 2. Current Plugin Settings and Version
+ * 2. Current Plugin Settings that change the content of the note and Version
  * 3. Some properties of the page where block is located
  */
 
@@ -19,6 +19,17 @@ import {
 } from "../logseq/blockAndPageHashCache";
 import _ from "lodash";
 import {getLogseqBlockPropSafe} from "../utils/utils";
+import {getNoteOwnHTML} from "../logseq/HtmlToLogseqConverter";
+
+// Settings that change the content of the anki notes. The other settings are left out of the hash.
+export const NOTE_CONTENT_SETTINGS = [
+    "breadcrumbDisplay",
+    "includeParentContent",
+    "useNamespaceAsDefaultDeck",
+    "defaultDeck",
+    "ankiFieldOptions",
+    "mermaidDiagrams",
+];
 
 export default class NoteHashCalculator {
     public static async getHash(note: Note, ankiFields: any[]): Promise<string> {
@@ -67,15 +78,7 @@ export default class NoteHashCalculator {
                 });
             }
         }
-        toHash.push(
-            _.omit(logseq.settings, [
-                "addonsList",
-                "renderClozeMarcosInLogseq",
-                "hideClozeMarcosUntilHoverInLogseq",
-                "cacheLogseqAPIv1",
-                "debug",
-            ]),
-        );
+        toHash.push(NoteHashCalculator.getSettingsToHash(logseq.settings));
         toHash.push({pluginVersion: pkg.version, logseqVersion: window.parent["logseq.sdk.core.version"] || ""});
 
         // Add additional things from ankiFields to toHash
@@ -96,4 +99,18 @@ export default class NoteHashCalculator {
         // Return hash
         return hashSum(toHash);
     }
+
+    // Hash of the exact field values written to anki (used to detect notes edited in anki since the last sync)
+    public static getFieldsHash(fields: {[field: string]: string}): string {
+        return hashSum(_.omit(fields, "Config"));
+    }
+
+    public static getSettingsToHash(settings: Record<string, any>): Record<string, any> {
+        return _.pick(settings, NOTE_CONTENT_SETTINGS);
+    }
+
+    // Hash of the note's own html in the Text field (used to detect Text edits to pull)
+    public static getTextHash(html: string): string {
+        return hashSum(getNoteOwnHTML(html));
+    }
 }
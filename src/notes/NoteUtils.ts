@@ -2,6 +2,14 @@
  * Contains util functions
  */
 import {LogseqProxy} from "../logseq/LogseqProxy";
+import _ from "lodash";
+import {convertHTMLToLogseq} from "../logseq/HtmlToLogseqConverter";
+import {
+    LOGSEQ_PLUGIN_CLOZE_REGEXP,
+    MD_PROPERTIES_REGEXP,
+    ORG_PROPERTIES_REGEXP,
+} from "../constants";
+import {getTextSimilarity} from "../utils/utils";
 
 export class NoteUtils {
     public static async matchTagNamesWithTagIds(
@@ -17,4 +25,53 @@ export class NoteUtils {
         }
         return result;
     }
+
+    // Text of the note html without formatting, properties & clozes (used to compare notes)
+    public static getComparableText(html: string): string {
+        return convertHTMLToLogseq(html || "")
+            .replace(MD_PROPERTIES_REGEXP, "")
+            .replace(ORG_PROPERTIES_REGEXP, "")
+            .replace(LOGSEQ_PLUGIN_CLOZE_REGEXP, (match, clozeId, clozeContent) => clozeContent)
+            .replace(/[*_~=`#>$\\{}()[\]]/g, " ")
+            .replace(/\s+/g, " ")
+            .trim()
+            .toLowerCase();
+    }
+
+    /**
+     * Matches the new notes to the orphaned anki notes of the same type with a similar
+     * comparable text (notes of the same page get a bonus). The best matches are picked first
+     * and every note & anki note is matched only once.
+     */
+    public static matchSimilarNotes<T>(
+        newNotes: Array<{note: T; type: string; page: string; text: string}>,
+        orphanedNotes: Array<{ankiId: number; type: string; page: string; text: string}>,
+    ): Array<{note: T; ankiId: number; similarity: number}> {
+        const matches = [];
+        for (const {note, type, page, text} of newNotes) {
+            if (text == "") continue;
+            for (const orphanedNote of orphanedNotes) {
+                if (orphanedNote.type != type || orphanedNote.text == "") continue;
+                let similarity = getTextSimilarity(text, orphanedNote.text);
+                if (orphanedNote.page != null && orphanedNote.page == page) similarity += 0.1;
+                if (similarity >= 0.8)
+                    matches.push({
+                        note,
+                        ankiId: orphanedNote.ankiId,
+                        similarity: Math.min(similarity, 1),
+                    });
+            }
+        }
+        const relinkCandidates = [];
+        for (const match of _.orderBy(matches, "similarity", "desc")) {
+            if (
+                relinkCandidates.some(
+                    ({note, ankiId}) => note == match.note || ankiId == match.ankiId,
+                )
+            )
+                continue;
+            relinkCandidates.push(match);
+        }
+        return relinkCandidates;
+    }
 }
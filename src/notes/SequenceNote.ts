@@ -0,0 +1,153 @@
+import {Note} from "./Note";
+import "@logseq/libs";
+import _ from "lodash";
+import hashSum from "hash-sum";
+import {convertToHTMLFile, HTMLFile} from "../logseq/LogseqToHtmlConverter";
+import {escapeClozesAndMacroDelimiters, getLogseqBlockPropSafe} from "../utils/utils";
+import {LogseqProxy} from "../logseq/LogseqProxy";
+import type {BlockEntity} from "@logseq/libs/dist/LSPlugin.user";
+import {DependencyEntity} from "../logseq/getLogseqContentDirectDependencies";
+import getUUIDFromBlock from "../logseq/getUUIDFromBlock";
+
+/**
+ * Overlapping cloze cards for the children (list items) of a #sequence block.
+ * Card N hides item N and shows sequence-context-before:: items before it and sequence-context-after:: items
+ * after it (set as page or block properties, defaults 1 and 0). Other items are hidden.
+ */
+export class SequenceNote extends Note {
+    public type = "sequence";
+    public children: BlockEntity[];
+    public itemIndex: number;
+
+    public constructor(
+        uuid: string,
+        content: string,
+        format: string,
+        properties: any,
+        page: any,
+        tagIds: number[] = [],
+        children: BlockEntity[] = [],
+        itemIndex = 0,
+        itemKey: string = null,
+    ) {
+        super(uuid, content, format, properties, page, tagIds);
+        this.children = children;
+        this.itemIndex = itemIndex;
+        if (itemKey != null) this.type = `sequence_${itemKey}`;
+    }
+
+    public static initLogseqOperations = () => {
+        logseq.provideStyle(`
+            .page-reference[data-ref=sequence], a[data-ref=sequence] {
+                opacity: .3;
+            }
+        `);
+        LogseqProxy.Editor.createPageSilentlyIfNotExists("sequence");
+    };
+
+    // Block properties override page properties
+    private getContextSize(property: string, defaultValue: number): number {
+        const value =
+            getLogseqBlockPropSafe(this, `properties.${property}`) ??
+            getLogseqBlockPropSafe(this, `page.properties.${property}`);
+        const contextSize = parseInt(value);
+        return isNaN(contextSize) || contextSize < 0 ? defaultValue : contextSize;
+    }
+
+    public async getClozedContentHTML(): Promise<HTMLFile> {
+        const contextBefore = this.getContextSize("sequence-context-before", 1);
+        const contextAfter = this.getContextSize("sequence-context-after", 0);
+        const contentHTMLFile = await convertToHTMLFile(this.content, this.format);
+        const assets = new Set<string>(contentHTMLFile.assets);
+        let html = `${contentHTMLFile.html}\n<ul class="children-list left-border">`;
+        for (const [index, child] of this.children.entries()) {
+            html += `\n<li class="children numbered">`;
+            const isContext =
+                index >= this.itemIndex - contextBefore &&
+                index <= this.itemIndex + contextAfter;
+            if (index == this.itemIndex || isContext) {
+                let itemContent = escapeClozesAndMacroDelimiters(_.get(child, "content", ""));
+                if (index == this.itemIndex) itemContent = `{{c1::${itemContent}}}`;
+                const itemHTMLFile = await convertToHTMLFile(itemContent, child.format);
+                itemHTMLFile.assets.forEach((asset) => assets.add(asset));
+                html += itemHTMLFile.html;
+            } else html += `<span style="opacity: 0.5">…</span>`;
+            html += `</li>`;
+        }
+        html += `</ul>`;
+        return {html, assets, tags: contentHTMLFile.tags};
+    }
+
+    public getBlockDependencies(): DependencyEntity[] {
+        return [this.uuid, ...this.children.map((child) => child.uuid)].map(
+            (block) => ({type: "Block", value: block}) as DependencyEntity,
+        );
+    }
+
+    public static async getNotesFromLogseqBlocks(
+        scopeQueryClause = "",
+    ): Promise<SequenceNote[]> {
+        const sequence_blocks = await LogseqProxy.DB.datascriptQueryBlocks(`
+        [:find (pull ?b [*])
+        :where
+        ${scopeQueryClause}
+        [?p :block/name "sequence"]
+        [?b :block/refs ?p]
+        ]`);
+        const blocks: any = [...sequence_blocks];
+        let sequenceNotes = await Promise.all(
+            blocks.map(async (block) => {
+                const uuid = getUUIDFromBlock(block[0]);
+                const page = block[0].page
+                    ? await LogseqProxy.Editor.getPage(block[0].page.id)
+                    : {};
+                const fullBlock = await LogseqProxy.Editor.getBlock(uuid, {
+                    includeChildren: true,
+                });
+                if (fullBlock)
+                    return new SequenceNote(
+                        uuid,
+                        fullBlock.content,
+                        fullBlock.format,
+                        fullBlock.properties || {},
+                        page,
+                        ((fullBlock.refs || []) as Array<{id: number}>).map((ref) => ref.id),
+                        (fullBlock.children || []) as BlockEntity[],
+                    );
+                else {
+                    return null;
+                }
+            }),
+        );
+        // Filter the blocks before splitting them into items (removeUnwantedNotes keeps one note per block)
+        sequenceNotes = (await Note.removeUnwantedNotes(sequenceNotes)) as SequenceNote[];
+
+        // One note per item. The item key is derived from the item content so that items can be reordered.
+        const notes: SequenceNote[] = [];
+        for (const sequenceNote of sequenceNotes) {
+            const itemKeyCounts = {};
+            for (const [index, child] of sequenceNote.children.entries()) {
+                const itemContent = _.get(child, "content", "").trim();
+                if (itemContent == "") continue;
+                let itemKey = hashSum(itemContent.toLowerCase());
+                itemKeyCounts[itemKey] = (itemKeyCounts[itemKey] || 0) + 1;
+                if (itemKeyCounts[itemKey] > 1) itemKey += `_${itemKeyCounts[itemKey]}`; // Duplicate items
+                notes.push(
+                    new SequenceNote(
+                        sequenceNote.uuid,
+                        sequenceNote.content,
+                        sequenceNote.format,
+                        sequenceNote.properties,
+                        sequenceNote.page,
+                        sequenceNote.tagIds,
+                        sequenceNote.children,
+                        index,
+                        itemKey,
+                    ),
+                );
+            }
+        }
+        console.log("SequenceNote Loaded");
+        return notes;
+    }
+}
@@ -2,13 +2,18 @@ import {Note} from "./Note";
 import "@logseq/libs";
 import {escapeClozesAndMacroDelimiters, getRandomUnicodeString, safeReplace} from "../utils/utils";
 import _ from "lodash";
+import hashSum from "hash-sum";
 import {MD_PROPERTIES_REGEXP, ORG_PROPERTIES_REGEXP} from "../constants";
 import {LogseqProxy} from "../logseq/LogseqProxy";
 import {convertToHTMLFile, HTMLFile} from "../logseq/LogseqToHtmlConverter";
 import getUUIDFromBlock from "../logseq/getUUIDFromBlock";
+import {NoteUtils} from "./NoteUtils";
+
+const SWIFT_ARROW_LINE_REGEXP = /(.+?)(\s*(:<->|:->|:<-)\s*)(.+)/;
 
 export class SwiftArrowNote extends Note {
     public type = "swift_arrow";
+    public line: string = null; // Set when the block has multiple arrow lines (one note per line)
 
     public constructor(
         uuid: string,
@@ -17,19 +22,19 @@ export class SwiftArrowNote extends Note {
         properties: any,
         page: any,
         tagIds: number[] = [],
+        line: string = null,
+        lineKey: string = null,
     ) {
         super(uuid, content, format, properties, page, tagIds);
+        this.line = line;
+        if (lineKey != null) this.type = `swift_arrow_${lineKey}`;
     }
 
     public static initLogseqOperations = () => {};
 
     public async getClozedContentHTML(): Promise<HTMLFile> {
-        let clozedContent: string = this.content;
-
-        // Remove logseq properties as it might cause problems during cloze creation
-        clozedContent = safeReplace(clozedContent, MD_PROPERTIES_REGEXP, ""); //Remove md properties
-        clozedContent = safeReplace(clozedContent, ORG_PROPERTIES_REGEXP, ""); //Remove org properties
-        console.log(clozedContent);
+        let clozedContent: string =
+            this.line != null ? this.line : SwiftArrowNote.removeProperties(this.content);
 
         // --- Add clozes ---
         const endDoubleBracket = getRandomUnicodeString();
@@ -61,10 +66,64 @@ export class SwiftArrowNote extends Note {
         return convertToHTMLFile(clozedContent, this.format);
     }
 
-    public static async getNotesFromLogseqBlocks(): Promise<SwiftArrowNote[]> {
+    // Remove logseq properties as it might cause problems during cloze creation
+    private static removeProperties(content: string): string {
+        content = safeReplace(content, MD_PROPERTIES_REGEXP, ""); //Remove md properties
+        return safeReplace(content, ORG_PROPERTIES_REGEXP, ""); //Remove org properties
+    }
+
+    // Blocks with multiple arrow lines generate one note per line.
+    // The line key is the hash of the line so that editing a line doesn't reset the others.
+    private static splitIntoLineNotes(note: SwiftArrowNote): SwiftArrowNote[] {
+        const arrowLines = SwiftArrowNote.removeProperties(note.content)
+            .split("\n")
+            .filter((line) => SWIFT_ARROW_LINE_REGEXP.test(line));
+        if (arrowLines.length <= 1) return [note];
+        const lineKeyCounts = {};
+        return arrowLines.map((line) => {
+            const lineText = line.replace(/^\s*([-*+]|\d+\.)\s+/, "").trim().toLowerCase();
+            let lineKey = hashSum(lineText);
+            lineKeyCounts[lineKey] = (lineKeyCounts[lineKey] || 0) + 1;
+            // Repeated lines get a numbered key
+            if (lineKeyCounts[lineKey] > 1) lineKey += `_${lineKeyCounts[lineKey]}`;
+            return new SwiftArrowNote(
+                note.uuid,
+                note.content,
+                note.format,
+                note.properties,
+                note.page,
+                note.tagIds,
+                line,
+                lineKey,
+            );
+        });
+    }
+
+    // A line note takes over the anki note of the block from when it had a single arrow line
+    // (uuid-swift_arrow) if that note has the text of the line. The anki note gets the
+    // uuid-type of the line on update, hence this migration happens only once.
+    public getAnkiId(): number {
+        if (this.ankiId || super.getAnkiId() != null || this.line == null) return this.ankiId;
+        if (/_\d+$/.test(this.type)) return this.ankiId; // Only the first of duplicate lines
+        const legacyNoteInfo = Array.from(Note.ankiNoteManager.noteInfoMap.values()).find(
+            (noteInfo) => noteInfo.uuidType == `${this.uuid}-swift_arrow`,
+        );
+        if (
+            legacyNoteInfo != null &&
+            NoteUtils.getComparableText(_.get(legacyNoteInfo, "fields.Text.value", "")) ==
+                NoteUtils.getComparableText(this.line)
+        )
+            this.ankiId = parseInt(legacyNoteInfo.noteId);
+        return this.ankiId;
+    }
+
+    public static async getNotesFromLogseqBlocks(
+        scopeQueryClause = "",
+    ): Promise<SwiftArrowNote[]> {
         const singleSwiftArrowBlocks = await logseq.DB.datascriptQuery(`
         [:find (pull ?b [*])
         :where
+        ${scopeQueryClause}
         [?b :block/content ?content]
         [(re-pattern ":(<->|->|<-)") ?regex]
         [(re-find ?regex ?content)]
@@ -110,6 +169,6 @@ export class SwiftArrowNote extends Note {
             );
             return cardGenerated;
         });
-        return notes;
+        return _.flatMap(notes, SwiftArrowNote.splitIntoLineNotes);
     }
 }
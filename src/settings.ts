@@ -3,6 +3,40 @@ import _ from "lodash";
 import {AddonRegistry} from "./addons/AddonRegistry";
 import {LogseqProxy} from "./logseq/LogseqProxy";
 import {DONATE_ICON} from "./constants";
+import * as AnkiConnect from "./anki-connect/AnkiConnect";
+
+// Reports the AnkiConnect version and the required actions that are missing
+export const testAnkiConnectConnection = async () => {
+    const {url} = AnkiConnect.getTransportOptions();
+    try {
+        const {version, missingActions} = await AnkiConnect.testConnection();
+        if (missingActions.length > 0)
+            await logseq.UI.showMsg(
+                `Connected to AnkiConnect (version ${version}) at ${url}. Some actions required by the plugin are missing: ${missingActions.join(", ")}. Please update AnkiConnect.`,
+                "warning",
+                {timeout: 10000},
+            );
+        else
+            await logseq.UI.showMsg(
+                `Connected to AnkiConnect (version ${version}) at ${url}. All actions required by the plugin are available.`,
+                "success",
+                {timeout: 5000},
+            );
+    } catch (e) {
+        await logseq.UI.showMsg(`Failed to connect to AnkiConnect at ${url}: ${e}`, "error", {
+            timeout: 5000,
+        });
+    }
+};
+
+// Values of the AnkiConnect connection settings
+export type AnkiConnectSettings = {
+    ankiConnectURL: string;
+    ankiConnectAPIKey: string;
+    ankiConnectChunkSize: number;
+    ankiConnectTimeoutSeconds: number;
+    ankiConnectRetries: number;
+};
 
 export const addSettingsToLogseq = () => {
     const settingsTemplate: SettingSchemaDesc[] = [
@@ -55,6 +89,70 @@ export const addSettingsToLogseq = () => {
                 "The default deck to use for cards when no deck property is specified.<br/> If <code>use-namespace-as-default-deck</code> is enabled, this will be used as the default deck only when page is not in any namespace.",
             default: "Default",
         },
+        {
+            key: "autoSyncSettingsHeading",
+            title: "🔄 Auto Sync",
+            description: "",
+            type: "heading",
+            default: null,
+        },
+        {
+            key: "autoSync",
+            type: "boolean",
+            default: false,
+            title: "Enable auto sync? (Recommended: Disabled) [Experimental]",
+            description:
+                "When enabled, notes whose blocks were edited are synced to Anki in the background once you stop editing. Deleting notes in Anki still requires confirmation. The status is shown on the toolbar icon.",
+        },
+        {
+            key: "autoSyncDebounceSeconds",
+            type: "number",
+            default: 30,
+            title: "Auto sync delay (in seconds):",
+            description: "Time to wait after the last edit before auto sync starts.",
+        },
+        {
+            key: "ankiConnectSettingsHeading",
+            title: "🔌 AnkiConnect Connection",
+            description: "",
+            type: "heading",
+            default: null,
+        },
+        {
+            key: "ankiConnectURL",
+            type: "string",
+            default: AnkiConnect.DEFAULT_ANKI_CONNECT_URL,
+            title: "AnkiConnect URL:",
+            description: `The address of AnkiConnect. Change it if Anki runs in a container or on another machine (e.g. http://192.168.1.5:8765).<br/><button id="logseq-anki-sync-test-connection-${logseq.baseInfo.id}" data-on-click="testAnkiConnectConnection" class="ui__button bg-indigo-600 text-white px-2 py-1 mt-2 rounded text-sm">Test connection</button>`,
+        },
+        {
+            key: "ankiConnectAPIKey",
+            type: "string",
+            default: "",
+            title: "AnkiConnect API key:",
+            description: "Required only when <code>apiKey</code> is set in the AnkiConnect config.",
+        },
+        {
+            key: "ankiConnectChunkSize",
+            type: "number",
+            default: 100,
+            title: "Max number of actions sent to AnkiConnect in a single request:",
+            description: "Large syncs are split into requests of these many actions. Lower it if syncing fails with big graphs.",
+        },
+        {
+            key: "ankiConnectTimeoutSeconds",
+            type: "number",
+            default: 60,
+            title: "AnkiConnect request timeout (in seconds):",
+            description: "Requests to AnkiConnect that take longer than this fail. Set to 0 to disable the timeout.",
+        },
+        {
+            key: "ankiConnectRetries",
+            type: "number",
+            default: 3,
+            title: "Number of retries when AnkiConnect can't be reached:",
+            description: "Requests that fail to reach AnkiConnect are retried with increasing delays.",
+        },
         {
             key: "logseqSideSettingsHeading",
             title: "🐾 Logseq Menu & Display",
@@ -78,6 +176,16 @@ export const addSettingsToLogseq = () => {
             description:
                 "When enabled, ({{c1 Hello}}, {{c2 World}}, ...) clozes will be hidden by default and displayed only on hover.",
         },
+        {
+            key: "ankiReviewStatsInLogseq",
+            type: "enum",
+            default: [],
+            title: "Anki review stats to write back to Logseq blocks? (Recommended: None)",
+            description:
+                "Select the review stats that should be added as block properties (anki-interval::, anki-lapses::, anki-due::, anki-ease::, anki-reviews::) after every sync.",
+            enumChoices: ["interval", "lapses", "due", "ease", "reviews"],
+            enumPicker: "checkbox",
+        },
         {
             key: "addonsList",
             type: "enum",
@@ -112,13 +220,54 @@ export const addSettingsToLogseq = () => {
             ],
             enumPicker: "checkbox",
         },
+        {
+            key: "mermaidDiagrams",
+            type: "enum",
+            default: "Show as code",
+            title: "How to display mermaid diagrams in Anki cards? (Recommended: Show as code)",
+            description:
+                "Code blocks with mermaid language can be rendered as diagrams. <br/> <sub>\"Render in Anki\" adds the mermaid runtime to the Anki media folder and renders the diagrams during review. \"Pre-render as SVG during sync\" renders them while syncing and works on Anki clients where javascript is limited. The mermaid runtime is bundled with the plugin.</sub>",
+            enumChoices: ["Show as code", "Render in Anki", "Pre-render as SVG during sync"],
+            enumPicker: "select",
+        },
+        {
+            key: "orphanedAnkiNotes",
+            type: "enum",
+            default: "Delete",
+            title: "What to do with Anki notes whose Logseq blocks were removed? (Recommended: Delete)",
+            description:
+                "Instead of deleting them, the notes can be kept (along with their review history) and tagged as logseq-orphan. If the block comes back, the note gets re-linked on next sync. <br/> <sub>Use the \"Purge Orphaned Anki Notes\" command to delete old orphaned notes.</sub>",
+            enumChoices: ["Delete", "Suspend", "Tag as logseq-orphan", "Move to quarantine deck"],
+            enumPicker: "select",
+        },
+        {
+            key: "quarantineDeck",
+            type: "string",
+            default: "Logseq Quarantine",
+            title: "Quarantine deck:",
+            description: "Deck to move orphaned notes to when \"Move to quarantine deck\" is selected above.",
+        },
+        {
+            key: "purgeOrphansAfterDays",
+            type: "number",
+            default: 30,
+            title: "Purge orphaned notes after (in days):",
+            description: "The \"Purge Orphaned Anki Notes\" command deletes notes that have been orphaned for more than these many days.",
+        },
+        {
+            key: "parseConcurrency",
+            type: "number",
+            default: 4,
+            title: "Number of notes to parse in parallel during sync:",
+            description: "Higher values make syncing large graphs faster but may make Logseq less responsive while syncing.",
+        },
         {
             key: "cacheLogseqAPIv1",
             type: "boolean",
             default: true,
             title: "Enable caching Logseq API for improved syncing speed? (Recommended: Enabled) [Experimental]",
             description:
-                "Enable active cache for Logseq API. When enabled, syncing will be faster but the plugin may use more memory.  <br/> <sub>NB: It is recommended to disable this option if notes are not getting updated properly.</sub>",
+                "Enable active cache for Logseq API. When enabled, syncing will be faster but the plugin may use more memory. Block dependencies and converted html are also cached across Logseq restarts. <br/> <sub>NB: It is recommended to disable this option if notes are not getting updated properly.</sub>",
         },
         {
             key: "debug",
@@ -165,4 +314,8 @@ export const addSettingsToLogseq = () => {
     `;
     window.parent.document.head.appendChild(style);
     logseq.provideStyle(style.innerHTML);   // This is in case above appendChild doesn't work
+
+    logseq.provideModel({
+        testAnkiConnectConnection: testAnkiConnectConnection,
+    });
 };
@@ -1,6 +1,7 @@
 import "@logseq/libs";
 import * as AnkiConnect from "./anki-connect/AnkiConnect";
 import {LazyAnkiNoteManager} from "./anki-connect/LazyAnkiNoteManager";
+import {SyncJournal} from "./anki-connect/SyncJournal";
 import {
     getTemplateFront,
     getTemplateBack, getTemplateMediaFiles
@@ -12,19 +13,34 @@ import _ from "lodash";
 import {
     escapeClozesAndMacroDelimiters,
     handleAnkiError,
-    getCaseInsensitive,
     sortAsync,
-    splitNamespace, getLogseqBlockPropSafe
+    splitNamespace,
+    safeReplace,
+    downloadFile,
+    forEachAsyncPool,
+    getLogseqBlockPropSafe,
 } from "./utils/utils";
 import path from "path-browserify";
-import {ANKI_CLOZE_REGEXP, MD_PROPERTIES_REGEXP, SUCCESS_ICON, WARNING_ICON} from "./constants";
+import {
+    ANKI_CLOZE_REGEXP,
+    ANKI_ORPHAN_TAG,
+    MD_PROPERTIES_REGEXP,
+    SUCCESS_ICON,
+    WARNING_ICON,
+} from "./constants";
 import {convertToHTMLFile} from "./logseq/LogseqToHtmlConverter";
+import {convertHTMLToLogseq, getNoteOwnHTML} from "./logseq/HtmlToLogseqConverter";
 import {LogseqProxy} from "./logseq/LogseqProxy";
 import pkg from "../package.json";
 import {SwiftArrowNote} from "./notes/SwiftArrowNote";
 import {ProgressNotification} from "./ui/customized/ProgressNotification";
 import {Confirm} from "./ui/general/Confirm";
 import {ImageOcclusionNote} from "./notes/ImageOcclusionNote";
+import {CardTableNote} from "./notes/CardTableNote";
+import {SequenceNote} from "./notes/SequenceNote";
+import {MultipleChoiceNote} from "./notes/MultipleChoiceNote";
+import getUUIDFromBlock from "./logseq/getUUIDFromBlock";
+import {InheritanceResolver} from "./logseq/InheritanceResolver";
 import NoteHashCalculator from "./notes/NoteHashCalculator";
 import {cancelable, CancelablePromise} from "cancelable-promise";
 import {DepGraph} from "dependency-graph";
@@ -34,12 +50,48 @@ import {showModelWithButtons} from "./ui/general/ModelWithBtns";
 import {SyncSelectionDialog} from "./ui/customized/SyncSelectionDialog";
 import {SyncResultDialog} from "./ui/customized/SyncResultDialog";
 import {BlockEntity, PageEntity, PageIdentity} from "@logseq/libs/dist/LSPlugin";
+// Restricts the sync to a page (optionally with its namespace children) or to some blocks (with their children)
+export type SyncScope =
+    | {type: "page"; pageName: string; includeNamespaceChildren?: boolean}
+    | {type: "blocks"; blockUUIDs: string[]};
+
+// A note edited in anki since the last sync (its anki fields no longer match the fields written by the last sync)
+export type SyncConflict = {
+    note: Note;
+    ankiId: number;
+    logseqFields: {[field: string]: string};
+    ankiFields: {[field: string]: string};
+    resolution?: "logseq" | "anki" | "skip";
+};
+
+// An orphaned anki note that is likely to be the note of a new block (e.g. a block copied to another graph)
+export type RelinkCandidate = {note: Note; ankiId: number; similarity: number};
+
+const SKIPPED_ON_CANCEL = "Skipped as the sync was cancelled";
+const MAX_SCOPE_ANKI_QUERY_BLOCKS = 250;
+
 export class LogseqToAnkiSync {
     static isSyncing: boolean;
     graphName: string;
     modelName: string;
+    ankiModelFieldNames = new Map<string, string[]>();
+    scope: SyncScope = null;
+    dryRun = false;
+    auto = false;
+    scopePageNames = new Set<string>();
+    scopeBlockUUIDs = new Set<string>();
 
-    public async sync(): Promise<void> {
+    /**
+     * @param opts.scope restrict the sync to a page or some blocks
+     * @param opts.dryRun download the sync plan instead of syncing
+     * @param opts.auto sync without the selection dialog (used by auto sync). Errors are thrown instead of being shown.
+     */
+    public async sync(
+        opts: {scope?: SyncScope; dryRun?: boolean; auto?: boolean} = {},
+    ): Promise<void> {
+        this.scope = opts.scope || null;
+        this.dryRun = opts.dryRun || false;
+        this.auto = opts.auto || false;
         if (LogseqToAnkiSync.isSyncing) {
             console.log(`Syncing already in process...`);
             return;
@@ -48,19 +100,25 @@ export class LogseqToAnkiSync {
         try {
             await this.performSync();
         } catch (e) {
-            handleAnkiError(e.toString());
+            if (!this.auto) handleAnkiError(e.toString());
             logseq.provideUI({
                 key: `logseq-anki-sync-progress-notification-${logseq.baseInfo.id}`,
                 template: ``,
             });
             console.error(e);
+            if (this.auto) throw e;
+        } finally {
+            LogseqToAnkiSync.isSyncing = false;
         }
-        LogseqToAnkiSync.isSyncing = false;
     }
 
-    private async performSync(): Promise<void> {
+    private async initGraphAndModelName(): Promise<void> {
         this.graphName = _.get(await logseq.App.getCurrentGraph(), "name") || "Default";
         this.modelName = `${this.graphName}Model`.replace(/\s/g, "_");
+    }
+
+    private async performSync(): Promise<void> {
+        await this.initGraphAndModelName();
         console.log(
             `%cStarting Logseq to Anki Sync V${pkg.version} for graph ${this.graphName}`,
             "color: green; font-size: 1.5em;",
@@ -69,49 +127,45 @@ export class LogseqToAnkiSync {
         // -- Request Access --
         await AnkiConnect.requestPermission();
 
-        // -- Create models if it doesn't exists --
-        await AnkiConnect.createModel(
-            this.modelName,
-            ["uuid-type", "uuid", "Text", "Extra", "Breadcrumb", "Config"],
-            getTemplateFront(),
-            getTemplateBack(),
-            getTemplateMediaFiles()
-        );
-
         // -- Prepare Anki Note Manager --
+        const scopeQueryClause = await this.getScopeQueryClause();
         const ankiNoteManager = new LazyAnkiNoteManager(this.modelName);
-        await ankiNoteManager.init();
+        await ankiNoteManager.init(this.getScopeAnkiQuery());
         Note.setAnkiNoteManager(ankiNoteManager);
 
         // -- Get the notes that are to be synced from logseq --
         const scanNotification = new ProgressNotification(
             `Scanning Logseq Graph <span style="opacity: 0.8">[${this.graphName}]</span>:`,
-            5,
+            8,
             "graph",
         );
         let notes: Array<Note> = [];
-        notes = [...notes, ...(await ClozeNote.getNotesFromLogseqBlocks())];
+        notes = [...notes, ...(await ClozeNote.getNotesFromLogseqBlocks(scopeQueryClause))];
+        scanNotification.increment();
+        notes = [...notes, ...(await SwiftArrowNote.getNotesFromLogseqBlocks(scopeQueryClause))];
+        scanNotification.increment();
+        notes = [
+            ...notes,
+            ...(await ImageOcclusionNote.getNotesFromLogseqBlocks(scopeQueryClause)),
+        ];
         scanNotification.increment();
-        notes = [...notes, ...(await SwiftArrowNote.getNotesFromLogseqBlocks())];
+        notes = [...notes, ...(await CardTableNote.getNotesFromLogseqBlocks(scopeQueryClause))];
         scanNotification.increment();
-        notes = [...notes, ...(await ImageOcclusionNote.getNotesFromLogseqBlocks())];
+        notes = [...notes, ...(await SequenceNote.getNotesFromLogseqBlocks(scopeQueryClause))];
         scanNotification.increment();
-        notes = [...notes, ...(await MultilineCardNote.getNotesFromLogseqBlocks(notes))];
+        notes = [
+            ...notes,
+            ...(await MultipleChoiceNote.getNotesFromLogseqBlocks(scopeQueryClause)),
+        ];
+        scanNotification.increment();
+        notes = [
+            ...notes,
+            ...(await MultilineCardNote.getNotesFromLogseqBlocks(notes, scopeQueryClause)),
+        ];
         scanNotification.increment();
         await new Promise((resolve) => setTimeout(resolve, 1000)); // wait 1 sec
         scanNotification.increment();
 
-        for (const note of notes) {
-            // Force persistance of note's logseq block uuid across re-index by adding id property to block in logseq
-            if (!note.properties["id"]) {
-                try {
-                    await LogseqProxy.Editor.upsertBlockProperty(note.uuid, "id", note.uuid);
-                } catch (e) {
-                    console.error(e);
-                }
-            }
-        }
-
         notes = await sortAsync(notes, async (a) => {
             return _.get(await LogseqProxy.Editor.getBlock(a.uuid), "id", 0); // Sort by db/id
         });
@@ -121,6 +175,8 @@ export class LogseqToAnkiSync {
         const failedCreated: { [key: string]: any } = {};
         const failedUpdated: { [key: string]: any } = {};
         const failedDeleted: { [key: string]: any } = {};
+        const failedPulled: { [key: string]: any } = {};
+        const skipped: { [key: string]: any } = {}; // Not synced as the sync was cancelled
         const toCreateNotesOriginal = new Array<Note>(),
             toUpdateNotesOriginal = new Array<Note>(),
             toDeleteNotesOriginal = new Array<number>();
@@ -133,11 +189,43 @@ export class LogseqToAnkiSync {
             notes.map((block) => block.getAnkiId()),
         ); // Flatten current logseq block's anki ids
         const AnkiIds: Array<number> = [...ankiNoteManager.noteInfoMap.keys()];
+        const inScopeAnkiIds = await this.getAnkiIdsInScope(
+            [...ankiNoteManager.noteInfoMap.values()],
+        );
         for (const ankiId of AnkiIds) {
-            if (!noteAnkiIds.includes(ankiId)) {
+            const noteInfo = ankiNoteManager.noteInfoMap.get(ankiId);
+            if (
+                !noteAnkiIds.includes(ankiId) &&
+                !(this.getOrphanedNotesHandling() && noteInfo.tags.includes(ANKI_ORPHAN_TAG)) && // Already soft deleted
+                inScopeAnkiIds.has(ankiId)
+            ) {
                 toDeleteNotesOriginal.push(ankiId);
             }
         }
+        // Re-link orphaned anki notes to similar new notes instead of deleting and re-creating them
+        const toRelinkNotesOriginal = await this.getRelinkCandidates(
+            toCreateNotesOriginal,
+            toDeleteNotesOriginal,
+            ankiNoteManager,
+        );
+        _.pullAll(
+            toCreateNotesOriginal,
+            toRelinkNotesOriginal.map((relink) => relink.note),
+        );
+        _.pullAll(
+            toDeleteNotesOriginal,
+            toRelinkNotesOriginal.map((relink) => relink.ankiId),
+        );
+        const toPullNotesOriginal = this.getAnkiSideEdits(toUpdateNotesOriginal, ankiNoteManager);
+        const toResolveConflictsOriginal = await this.getConflicts(
+            toUpdateNotesOriginal,
+            toPullNotesOriginal,
+            ankiNoteManager,
+        );
+        _.pullAll(
+            toUpdateNotesOriginal,
+            toResolveConflictsOriginal.map((conflict) => conflict.note),
+        );
 
         // -- Prompt the user what actions are going to be performed --
         // Perform caching while user is reading the prompt
@@ -159,18 +247,45 @@ export class LogseqToAnkiSync {
             }
         }, 4000);
 
-        const noteSelection = await SyncSelectionDialog(
-            toCreateNotesOriginal,
-            toUpdateNotesOriginal,
-            toDeleteNotesOriginal,
-        );
+        const noteSelection = this.auto
+            ? await this.getAutoSyncSelection(
+                  toCreateNotesOriginal,
+                  toUpdateNotesOriginal,
+                  toDeleteNotesOriginal,
+                  toResolveConflictsOriginal,
+                  toRelinkNotesOriginal,
+              )
+            : await SyncSelectionDialog(
+                  toCreateNotesOriginal,
+                  toUpdateNotesOriginal,
+                  toDeleteNotesOriginal,
+                  toPullNotesOriginal,
+                  toResolveConflictsOriginal,
+                  toRelinkNotesOriginal,
+                  toUpdateNotesOriginal.filter((note) => !this.isConflictCheckable(note))
+                      .length,
+              );
         if (!noteSelection) {
             buildNoteHashes.cancel();
             window.parent.LogseqAnkiSync.dispatchEvent("syncLogseqToAnkiComplete");
             console.log("Sync Aborted by user!");
             return;
         }
-        const {toCreateNotes, toUpdateNotes, toDeleteNotes} = noteSelection;
+        const {toCreateNotes, toDeleteNotes, toPullNotes, toResolveConflicts, toRelinkNotes} =
+            noteSelection;
+        // Re-linked notes are updated into the orphaned anki note (its uuid-type gets rewritten)
+        for (const {note, ankiId} of toRelinkNotes) note.ankiId = ankiId;
+        // Notes whose anki side edits are pulled into logseq must not be overwritten by this sync
+        const toUpdateNotes = [
+            ...noteSelection.toUpdateNotes,
+            ...toRelinkNotes.map((relink) => relink.note),
+            ...toResolveConflicts
+                .filter((conflict) => conflict.resolution == "logseq")
+                .map((conflict) => conflict.note),
+        ].filter((note) => !toPullNotes.some((pullNote) => pullNote.note == note));
+        const toKeepAnkiConflicts = toResolveConflicts.filter(
+            (conflict) => conflict.resolution == "anki",
+        );
         console.log(
             "toCreateNotes",
             toCreateNotes,
@@ -178,11 +293,54 @@ export class LogseqToAnkiSync {
             toUpdateNotes,
             "toDeleteNotes",
             toDeleteNotes,
+            "toPullNotes",
+            toPullNotes,
+            "toResolveConflicts",
+            toResolveConflicts,
+            "toRelinkNotes",
+            toRelinkNotes,
         );
 
+        if (this.dryRun || noteSelection.dryRun) {
+            buildNoteHashes.cancel();
+            await this.exportSyncPlan(
+                toCreateNotes,
+                toUpdateNotes,
+                toDeleteNotes,
+                toPullNotes,
+                toResolveConflicts,
+                toRelinkNotes,
+                ankiNoteManager,
+            );
+            window.parent.LogseqAnkiSync.dispatchEvent("syncLogseqToAnkiComplete");
+            return;
+        }
+
+        // -- Create models if it doesn't exists (nothing is modified in dry run) --
+        await AnkiConnect.createModel(
+            this.modelName,
+            ["uuid-type", "uuid", "Text", "Extra", "Breadcrumb", "Config"],
+            getTemplateFront(),
+            getTemplateBack(),
+            await getTemplateMediaFiles(),
+        );
+
+        for (const note of notes) {
+            // Force persistance of note's logseq block uuid across re-index by adding id property to block in logseq
+            if (!note.properties["id"]) {
+                try {
+                    await LogseqProxy.Editor.upsertBlockProperty(note.uuid, "id", note.uuid);
+                } catch (e) {
+                    console.error(e);
+                }
+            }
+        }
+
         if (
             toCreateNotes.length == 0 &&
             toUpdateNotes.length == 0 &&
+            toPullNotes.length == 0 &&
+            toKeepAnkiConflicts.length == 0 &&
             toDeleteNotes.length >= 10
         ) {
             // Prompt the user again if they are about to delete a lot of notes
@@ -199,7 +357,12 @@ export class LogseqToAnkiSync {
         // -- Sync --
         const start_time = performance.now();
         const twentyPercent = Math.ceil(
-            (toCreateNotes.length + toUpdateNotes.length + toDeleteNotes.length) / 20,
+            (toCreateNotes.length +
+                toUpdateNotes.length +
+                toDeleteNotes.length +
+                toPullNotes.length +
+                toKeepAnkiConflicts.length) /
+                20,
         );
         const syncNotificationMsg = "Syncing logseq notes to anki...";
         const syncNotificationObj = new ProgressNotification(
@@ -207,18 +370,55 @@ export class LogseqToAnkiSync {
             toCreateNotes.length +
                 toUpdateNotes.length +
                 toDeleteNotes.length +
+                toPullNotes.length +
+                toKeepAnkiConflicts.length +
                 twentyPercent +
                 1,
             "anki",
+            true,
         );
-        await this.createNotes(toCreateNotes, failedCreated, ankiNoteManager, syncNotificationObj);
-        await this.updateNotes(toUpdateNotes, failedUpdated, ankiNoteManager, syncNotificationObj);
-        await this.deleteNotes(toDeleteNotes, failedDeleted, ankiNoteManager, syncNotificationObj);
-        await syncNotificationObj.updateMessage("Syncing logseq assets to anki...");
-        await this.updateAssets(ankiNoteManager);
+        ankiNoteManager.journal = new SyncJournal(this.modelName);
+        try {
+            await this.pullNotes(toPullNotes, failedPulled, skipped, syncNotificationObj);
+            await this.createNotes(
+                toCreateNotes,
+                failedCreated,
+                skipped,
+                ankiNoteManager,
+                syncNotificationObj,
+            );
+            await this.keepAnkiSideEdits(
+                toKeepAnkiConflicts,
+                failedUpdated,
+                skipped,
+                ankiNoteManager,
+                syncNotificationObj,
+            ); // Executed along with the updates
+            await this.updateNotes(
+                toUpdateNotes,
+                failedUpdated,
+                skipped,
+                ankiNoteManager,
+                syncNotificationObj,
+            );
+            await this.deleteNotes(
+                toDeleteNotes,
+                failedDeleted,
+                skipped,
+                ankiNoteManager,
+                syncNotificationObj,
+            );
+            await syncNotificationObj.updateMessage("Syncing logseq assets to anki...");
+            await this.updateAssets(ankiNoteManager);
+        } finally {
+            // Keep the journal of the last sync that changed something in anki (for "Undo Last Sync")
+            if (!ankiNoteManager.journal.isEmpty()) await ankiNoteManager.journal.save();
+        }
         await syncNotificationObj.increment(twentyPercent);
         await AnkiConnect.invoke("reloadCollection", {});
+        await this.writeReviewStatsToLogseq(notes, ankiNoteManager);
         await syncNotificationObj.increment();
+        if (syncNotificationObj.cancelled) syncNotificationObj.close();
         window.parent.LogseqAnkiSync.dispatchEvent("syncLogseqToAnkiComplete");
 
         // Save logseq graph if any changes were made
@@ -231,24 +431,71 @@ export class LogseqToAnkiSync {
         }
 
         // -- Show Result / Summery --
-        let summery = `Sync Completed! \n Created Blocks: ${
-            toCreateNotes.length - Object.keys(failedCreated).length
+        const skippedOf = (keys: Array<string | number>) =>
+            _.pick(skipped, keys.filter((key) => skipped[key] != null));
+        const skippedCreated = skippedOf(
+            toCreateNotes.map((note) => `${note.uuid}-${note.type}`),
+        );
+        const skippedUpdated = skippedOf(
+            [...toUpdateNotes, ...toKeepAnkiConflicts.map(({note}) => note)].map(
+                (note) => `${note.uuid}-${note.type}`,
+            ),
+        );
+        const skippedDeleted = skippedOf(toDeleteNotes);
+        const status = syncNotificationObj.cancelled ? "Cancelled" : "Completed";
+        let summery = `Sync ${status}! \n Created Blocks: ${
+            toCreateNotes.length -
+            Object.keys(failedCreated).length -
+            Object.keys(skippedCreated).length
         } \n Updated Blocks: ${
-            toUpdateNotes.length - Object.keys(failedUpdated).length
+            toUpdateNotes.length +
+            toKeepAnkiConflicts.length -
+            Object.keys(failedUpdated).length -
+            Object.keys(skippedUpdated).length
         } \n Deleted Blocks: ${
-            toDeleteNotes.length - Object.keys(failedDeleted).length
+            toDeleteNotes.length -
+            Object.keys(failedDeleted).length -
+            Object.keys(skippedDeleted).length
         }`;
+        if (toRelinkNotes.length > 0)
+            summery += `\n Re-linked Blocks: ${
+                toRelinkNotes.filter(
+                    ({note}) => failedUpdated[`${note.uuid}-${note.type}`] == null,
+                ).length
+            }`;
+        if (toPullNotes.length > 0)
+            summery += `\n Pulled Blocks: ${
+                toPullNotes.length -
+                Object.keys(failedPulled).length -
+                Object.keys(
+                    skippedOf(toPullNotes.map(({note}) => `${note.uuid}-${note.type}`)),
+                ).length
+            }`;
         if (Object.keys(failedCreated).length > 0)
             summery += `\nFailed Created: ${Object.keys(failedCreated).length} `;
         if (Object.keys(failedUpdated).length > 0)
             summery += `\nFailed Updated: ${Object.keys(failedUpdated).length} `;
         if (Object.keys(failedDeleted).length > 0)
             summery += `\nFailed Deleted: ${Object.keys(failedDeleted).length} `;
+        if (Object.keys(failedPulled).length > 0)
+            summery += `\nFailed Pulled: ${Object.keys(failedPulled).length} `;
+        if (Object.keys(skipped).length > 0)
+            summery += `\nSkipped (cancelled): ${Object.keys(skipped).length} `;
 
         console.log(toCreateNotes, toUpdateNotes, toDeleteNotes);
         // logseq.UI.showMsg(summery, status, {
         //     timeout: status == "success" ? 1200 : 4000,
         // });
+        if (this.auto) {
+            if ((logseq.settings.debug as string[]).includes("syncLogseqToAnki.ts"))
+                console.log(summery);
+            const failedCount =
+                Object.keys(failedCreated).length +
+                Object.keys(failedUpdated).length +
+                Object.keys(failedDeleted).length;
+            if (failedCount > 0) throw `Auto sync failed for ${failedCount} notes.`;
+            return;
+        }
         ActionNotification(
             [
                 {
@@ -258,9 +505,9 @@ export class LogseqToAnkiSync {
                             toCreateNotes,
                             toUpdateNotes,
                             toDeleteNotes,
-                            failedCreated,
-                            failedUpdated,
-                            failedDeleted,
+                            {...skippedCreated, ...failedCreated},
+                            {...skippedUpdated, ...failedUpdated},
+                            {...skippedDeleted, ...failedDeleted},
                         );
                     },
                 },
@@ -285,53 +532,54 @@ export class LogseqToAnkiSync {
     private async createNotes(
         toCreateNotes: Note[],
         failedCreated: { [key: string]: any },
+        skipped: { [key: string]: any },
         ankiNoteManager: LazyAnkiNoteManager,
         syncNotificationObj: ProgressNotification,
     ): Promise<void> {
-        for (const note of toCreateNotes) {
-            try {
-                const [html, assets, deck, breadcrumb, tags, extra] = await this.parseNote(
-                    note,
-                );
-                const dependencyHash = await NoteHashCalculator.getHash(note, [
-                    html,
-                    Array.from(assets),
-                    deck,
-                    breadcrumb,
-                    tags,
-                    extra,
-                ]);
-                // Add assets
-                const graphPath = (await logseq.App.getCurrentGraph()).path;
-                assets.forEach((asset) => {
-                    ankiNoteManager.storeAsset(
-                        path.basename(asset),
-                        path.join(graphPath, path.resolve(asset)),
+        const graphPath = (await logseq.App.getCurrentGraph()).path;
+        // Notes are parsed in parallel. Once cancelled, only the parsed notes are added.
+        const notStartedNotes = await forEachAsyncPool(
+            toCreateNotes,
+            this.getParseConcurrency(),
+            async (note) => {
+                try {
+                    const [html, assets, deck, breadcrumb, tags, extra] = await this.parseNote(
+                        note,
                     );
-                });
-                // Create note
-                ankiNoteManager.addNote(
-                    deck,
-                    this.modelName,
-                    {
-                        "uuid-type": `${note.uuid}-${note.type}`,
-                        uuid: note.uuid,
-                        Text: html,
-                        Extra: extra,
-                        Breadcrumb: breadcrumb,
-                        Config: JSON.stringify({
-                            dependencyHash,
-                            assets: [...assets],
-                        }),
-                    },
-                    tags,
-                );
-            } catch (e) {
-                console.error(e);
-                failedCreated[`${note.uuid}-${note.type}`] = e;
-            }
-            syncNotificationObj.increment();
-        }
+                    const ankiModel = note.getAnkiModelName() || this.modelName;
+                    const fields = await this.getAnkiFields(note, ankiModel, [
+                        html,
+                        assets,
+                        deck,
+                        breadcrumb,
+                        tags,
+                        extra,
+                    ]);
+                    // Add assets
+                    assets.forEach((asset) => {
+                        ankiNoteManager.storeAsset(
+                            path.basename(asset),
+                            path.join(graphPath, path.resolve(asset)),
+                        );
+                    });
+                    // Create note
+                    ankiNoteManager.addNote(
+                        deck,
+                        ankiModel,
+                        fields,
+                        tags,
+                        `${note.uuid}-${note.type}`,
+                    );
+                } catch (e) {
+                    console.error(e);
+                    failedCreated[`${note.uuid}-${note.type}`] = e;
+                }
+                syncNotificationObj.increment();
+            },
+            () => syncNotificationObj.cancelled,
+        );
+        for (const note of notStartedNotes)
+            skipped[`${note.uuid}-${note.type}`] = SKIPPED_ON_CANCEL;
 
         let [addedNoteAnkiIdUUIDPairs, subOperationResults] = await ankiNoteManager.execute(
             "addNotes",
@@ -364,108 +612,759 @@ export class LogseqToAnkiSync {
     private async updateNotes(
         toUpdateNotes: Note[],
         failedUpdated: { [key: string]: any },
+        skipped: { [key: string]: any },
         ankiNoteManager: LazyAnkiNoteManager,
         syncNotificationObj: ProgressNotification,
     ): Promise<void> {
         const graphPath = (await logseq.App.getCurrentGraph()).path;
+        // Notes are parsed in parallel. Once cancelled, only the parsed notes are updated.
+        const notStartedNotes = await forEachAsyncPool(
+            toUpdateNotes,
+            this.getParseConcurrency(),
+            async (note) => {
+                try {
+                    const ankiId = note.getAnkiId();
+                    const ankiModel = note.getAnkiModelName() || this.modelName;
+                    // Calculate Dependency Hash - It is the hash of all dependencies of the note
+                    // (dependencies include related logseq blocks, related logseq pages, plugin version, current note content in anki etc)
+                    // Notes of other note types don't have the Config field and are hence always reparsed
+                    const ankiNodeInfo = ankiNoteManager.noteInfoMap.get(ankiId);
+                    const isGraphModelNote =
+                        ankiModel == this.modelName && ankiNodeInfo.modelName == this.modelName;
+                    const oldConfig = ((configString) => {
+                        try {
+                            return JSON.parse(configString);
+                        } catch (e) {
+                            return {};
+                        }
+                    })(_.get(ankiNodeInfo, "fields.Config.value"));
+                    let dependencyHash = null;
+                    if (isGraphModelNote) {
+                        const [oldHtml, oldAssets, oldDeck, oldBreadcrumb, oldTags, oldExtra] = [
+                            ankiNodeInfo.fields.Text.value,
+                            oldConfig.assets,
+                            ankiNodeInfo.deck,
+                            ankiNodeInfo.fields.Breadcrumb.value,
+                            ankiNodeInfo.tags,
+                            ankiNodeInfo.fields.Extra.value,
+                        ];
+                        dependencyHash = await NoteHashCalculator.getHash(note, [
+                            oldHtml,
+                            oldAssets,
+                            oldDeck,
+                            oldBreadcrumb,
+                            oldTags,
+                            oldExtra,
+                        ]);
+                    }
+                    if (
+                        !isGraphModelNote ||
+                        ankiNodeInfo.uuidType != `${note.uuid}-${note.type}` || // Re-linked note
+                        !_.has(oldConfig, "page") || // Backfills the page of older notes
+                        logseq.settings.skipOnDependencyHashMatch != true ||
+                        oldConfig.dependencyHash != dependencyHash
+                    ) {
+                        // Reparse Note + update assets + update
+                        const [html, assets, deck, breadcrumb, tags, extra] = await this.parseNote(
+                            note,
+                        );
+                        const fields = await this.getAnkiFields(note, ankiModel, [
+                            html,
+                            assets,
+                            deck,
+                            breadcrumb,
+                            tags,
+                            extra,
+                        ]);
+                        // Add or update assets
+                        assets.forEach((asset) => {
+                            ankiNoteManager.storeAsset(
+                                path.basename(asset),
+                                path.join(graphPath, path.resolve(asset)),
+                            );
+                        });
+                        // Update note
+                        if (logseq.settings.debug.includes("syncLogseqToAnki.ts"))
+                            console.log(
+                                `dependencyHash mismatch for note with id ${note.uuid}-${note.type}`,
+                            );
+                        ankiNoteManager.updateNote(
+                            ankiId,
+                            deck,
+                            ankiModel,
+                            fields,
+                            tags,
+                            `${note.uuid}-${note.type}`,
+                        );
+                    } else {
+                        // Just update old assets
+                        oldConfig.assets.forEach((asset) => {
+                            if (ankiNoteManager.mediaInfo.has(path.basename(asset))) return;
+                            ankiNoteManager.storeAsset(
+                                path.basename(asset),
+                                path.join(graphPath, path.resolve(asset)),
+                            );
+                        });
+                    }
+                } catch (e) {
+                    console.error(e);
+                    failedUpdated[`${note.uuid}-${note.type}`] = e;
+                }
+                syncNotificationObj.increment();
+            },
+            () => syncNotificationObj.cancelled,
+        );
+        for (const note of notStartedNotes)
+            skipped[`${note.uuid}-${note.type}`] = SKIPPED_ON_CANCEL;
+
+        let subOperationResults = await ankiNoteManager.execute("updateNotes");
+        for (const subOperationResult of subOperationResults) {
+            if (subOperationResult != null && subOperationResult.error != null) {
+                console.error(subOperationResult.error);
+                failedUpdated[subOperationResult["uuid-type"]] = subOperationResult.error;
+            }
+        }
+    }
+
+    private async getAnkiFields(
+        note: Note,
+        ankiModel: string,
+        [html, assets, deck, breadcrumb, tags, extra]: [
+            string,
+            Set<string>,
+            string,
+            string,
+            string[],
+            string,
+        ],
+    ): Promise<{ [field: string]: string }> {
+        if (ankiModel != this.modelName) {
+            // Fill the fields of the anki note type that are mapped using anki-field-* properties
+            if (!this.ankiModelFieldNames.has(ankiModel)) {
+                try {
+                    this.ankiModelFieldNames.set(
+                        ankiModel,
+                        await AnkiConnect.invoke("modelFieldNames", {modelName: ankiModel}),
+                    );
+                } catch (e) {
+                    throw `Anki note type "${ankiModel}" does not exist.`;
+                }
+            }
+            const modelFieldNames = this.ankiModelFieldNames.get(ankiModel);
+            const {fields: noteFields, assets: fieldAssets} = await note.getAnkiFields();
+            const fields = {};
+            // Logseq lowercases and camelCases property names (anki-field-my-field:: becomes
+            // ankiFieldMyField), hence the field names are matched ignoring case and separators
+            const normalizeFieldName = (name: string) =>
+                name.toLowerCase().replace(/[\s_-]/g, "");
+            for (const [fieldName, fieldValue] of Object.entries(noteFields)) {
+                const modelFieldName = modelFieldNames.find(
+                    (name) => normalizeFieldName(name) == normalizeFieldName(fieldName),
+                );
+                if (modelFieldName == null)
+                    throw `Field "${fieldName}" does not exist in anki note type "${ankiModel}".`;
+                fields[modelFieldName] = fieldValue;
+            }
+            fieldAssets.forEach((asset) => assets.add(asset));
+            return fields;
+        }
+
+        const dependencyHash = await NoteHashCalculator.getHash(note, [
+            html,
+            Array.from(assets),
+            deck,
+            breadcrumb,
+            tags,
+            extra,
+        ]);
+        const fields = {
+            "uuid-type": `${note.uuid}-${note.type}`,
+            uuid: note.uuid,
+            Text: html,
+            Extra: extra,
+            Breadcrumb: breadcrumb,
+        };
+        return {
+            ...fields,
+            Config: JSON.stringify({
+                dependencyHash,
+                assets: [...assets],
+                textHash: NoteHashCalculator.getTextHash(html),
+                page: _.get(note, "page.name", null),
+                fieldsHash: NoteHashCalculator.getFieldsHash(fields),
+            }),
+        };
+    }
+
+    // Auto sync pushes all creates and updates but deletes only after confirmation
+    private async getAutoSyncSelection(
+        toCreateNotes: Note[],
+        toUpdateNotes: Note[],
+        toDeleteNotes: number[],
+        toResolveConflicts: SyncConflict[],
+        toRelinkNotes: RelinkCandidate[],
+    ): Promise<{
+        toCreateNotes: Note[];
+        toUpdateNotes: Note[];
+        toDeleteNotes: number[];
+        toPullNotes: Array<{ note: Note; ankiId: number; content: string }>;
+        toResolveConflicts: SyncConflict[];
+        toRelinkNotes: RelinkCandidate[];
+        dryRun?: boolean;
+    }> {
+        if (
+            toDeleteNotes.length > 0 &&
+            !(await Confirm(
+                `Auto sync wants to delete ${toDeleteNotes.length} anki note(s) whose logseq blocks are no longer cards.<br/>Do you want to delete them?`,
+            ))
+        )
+            toDeleteNotes = [];
+        // Conflicts need to be resolved by the user in the next manual sync
+        return {
+            toCreateNotes,
+            toUpdateNotes,
+            toDeleteNotes,
+            toPullNotes: [],
+            toRelinkNotes,
+            toResolveConflicts: toResolveConflicts.map((conflict) => ({
+                ...conflict,
+                resolution: "skip",
+            })),
+        };
+    }
+
+    // Builds what the sync would do without executing it and downloads it as json
+    private async exportSyncPlan(
+        toCreateNotes: Note[],
+        toUpdateNotes: Note[],
+        toDeleteNotes: number[],
+        toPullNotes: Array<{ note: Note; ankiId: number; content: string }>,
+        toResolveConflicts: SyncConflict[],
+        toRelinkNotes: RelinkCandidate[],
+        ankiNoteManager: LazyAnkiNoteManager,
+    ): Promise<void> {
+        const planNotification = new ProgressNotification(
+            "Building sync plan (dry run)...",
+            toCreateNotes.length + toUpdateNotes.length + 1,
+            "graph",
+        );
+        const plan = {
+            graph: this.graphName,
+            modelName: this.modelName,
+            pluginVersion: pkg.version,
+            createdAt: new Date().toISOString(),
+            scope: this.scope,
+            create: [],
+            update: [],
+            delete: [],
+            pull: [],
+            conflicts: [],
+            relink: [],
+            failed: [],
+        };
+        const getPlannedNote = async (note: Note) => {
+            const uuidType = `${note.uuid}-${note.type}`;
+            const [html, assets, deck, breadcrumb, tags, extra] = await this.parseNote(note);
+            const modelName = note.getAnkiModelName() || this.modelName;
+            const fields = await this.getAnkiFields(note, modelName, [
+                html,
+                assets,
+                deck,
+                breadcrumb,
+                tags,
+                extra,
+            ]);
+            return {
+                "uuid-type": uuidType,
+                modelName,
+                deck,
+                tags:
+                    modelName == this.modelName
+                        ? tags
+                        : [...tags, ankiNoteManager.getUuidTypeTag(uuidType)],
+                fields,
+                assets: [...assets],
+            };
+        };
+
+        for (const note of toCreateNotes) {
+            try {
+                plan.create.push(await getPlannedNote(note));
+            } catch (e) {
+                plan.failed.push({action: "create", "uuid-type": `${note.uuid}-${note.type}`, error: String(e)});
+            }
+            planNotification.increment();
+        }
         for (const note of toUpdateNotes) {
             try {
-                const ankiId = note.getAnkiId();
-                // Calculate Dependency Hash - It is the hash of all dependencies of the note
-                // (dependencies include related logseq blocks, related logseq pages, plugin version, current note content in anki etc)
+                const plannedNote = await getPlannedNote(note);
+                const ankiNoteInfo = ankiNoteManager.noteInfoMap.get(note.getAnkiId());
+                const fieldsDiff = {};
+                for (const [field, value] of Object.entries(plannedNote.fields)) {
+                    const oldValue = _.get(ankiNoteInfo, ["fields", field, "value"], null);
+                    if (oldValue != value) fieldsDiff[field] = {old: oldValue, new: value};
+                }
+                const oldTags = ankiNoteInfo.tags.filter(
+                    (tag) => !["leech", "marked"].includes(tag.toLowerCase()),
+                );
+                plan.update.push({
+                    ...plannedNote,
+                    ankiId: note.getAnkiId(),
+                    diff: {
+                        fields: fieldsDiff,
+                        deck:
+                            ankiNoteInfo.deck != plannedNote.deck
+                                ? {old: ankiNoteInfo.deck, new: plannedNote.deck}
+                                : null,
+                        modelName:
+                            ankiNoteInfo.modelName != plannedNote.modelName
+                                ? {old: ankiNoteInfo.modelName, new: plannedNote.modelName}
+                                : null,
+                        addedTags: _.difference(plannedNote.tags, oldTags),
+                        removedTags: _.difference(oldTags, plannedNote.tags),
+                    },
+                });
+            } catch (e) {
+                plan.failed.push({action: "update", "uuid-type": `${note.uuid}-${note.type}`, error: String(e)});
+            }
+            planNotification.increment();
+        }
+        for (const ankiId of toDeleteNotes) {
+            const ankiNoteInfo = ankiNoteManager.noteInfoMap.get(ankiId);
+            plan.delete.push({
+                ankiId,
+                "uuid-type": _.get(ankiNoteInfo, "uuidType", null),
+                modelName: _.get(ankiNoteInfo, "modelName", null),
+                deck: _.get(ankiNoteInfo, "deck", null),
+            });
+        }
+        for (const {note, ankiId, content} of toPullNotes) {
+            plan.pull.push({ankiId, "uuid-type": `${note.uuid}-${note.type}`, content});
+        }
+        for (const {note, ankiId, similarity} of toRelinkNotes) {
+            plan.relink.push({
+                ankiId,
+                "old-uuid-type": _.get(ankiNoteManager.noteInfoMap.get(ankiId), "uuidType", null),
+                "uuid-type": `${note.uuid}-${note.type}`,
+                similarity,
+            });
+        }
+        for (const {note, ankiId, logseqFields, ankiFields, resolution} of toResolveConflicts) {
+            plan.conflicts.push({
+                ankiId,
+                "uuid-type": `${note.uuid}-${note.type}`,
+                resolution,
+                logseqFields,
+                ankiFields,
+            });
+        }
+
+        downloadFile(
+            `${this.graphName}-anki-sync-plan-${plan.createdAt.replace(/[:.]/g, "-")}.json`,
+            JSON.stringify(plan, null, 2),
+        );
+        planNotification.increment();
+        await logseq.UI.showMsg(
+            `Dry run completed! \n Create: ${plan.create.length} \n Update: ${plan.update.length} \n Delete: ${plan.delete.length} \n Failed: ${plan.failed.length}`,
+            plan.failed.length > 0 ? "warning" : "success",
+        );
+    }
+
+    // Returns the datalog clauses that restrict the scanned blocks (?b) to the sync scope
+    private async getScopeQueryClause(): Promise<string> {
+        this.scopePageNames.clear();
+        this.scopeBlockUUIDs.clear();
+        if (this.scope == null) return "";
+        if (this.scope.type == "page") {
+            const page = await LogseqProxy.Editor.getPage(this.scope.pageName);
+            if (page == null) throw `Page ${this.scope.pageName} not found.`;
+            const pageIds = [page.id];
+            this.scopePageNames.add(page.name);
+            if (this.scope.includeNamespaceChildren) {
+                const namespaceChildren = await LogseqProxy.DB.datascriptQuery(`
+                [:find (pull ?p [:db/id :block/name])
+                :where
+                [?p :block/name ?name]
+                [(clojure.string/starts-with? ?name ${JSON.stringify(`${page.name}/`)})]
+                ]`);
+                for (const [namespaceChild] of namespaceChildren) {
+                    pageIds.push(namespaceChild.id);
+                    this.scopePageNames.add(namespaceChild.name);
+                }
+            }
+            const scopeBlocks = await LogseqProxy.DB.datascriptQuery(`
+            [:find (pull ?b [:block/uuid])
+            :where
+            [(ground [${pageIds.join(" ")}]) [?scope-page ...]]
+            [?b :block/page ?scope-page]
+            ]`);
+            for (const [block] of scopeBlocks || []) {
+                const uuid = getUUIDFromBlock(block);
+                if (uuid != null) this.scopeBlockUUIDs.add(uuid.toString().toLowerCase());
+            }
+            return `[(ground [${pageIds.join(" ")}]) [?scope-page ...]]
+                    [?b :block/page ?scope-page]`;
+        }
+        const blockIds = [];
+        const addBlockWithChildren = (block) => {
+            if (block == null || block.uuid == null) return;
+            blockIds.push(block.id);
+            this.scopeBlockUUIDs.add(getUUIDFromBlock(block).toString().toLowerCase());
+            (block.children || []).forEach(addBlockWithChildren);
+        };
+        for (const uuid of this.scope.blockUUIDs) {
+            const block = await LogseqProxy.Editor.getBlock(uuid, {includeChildren: true});
+            // Deleted blocks stay in the scope so that their anki notes are found and deleted
+            if (block == null) this.scopeBlockUUIDs.add(uuid.toLowerCase());
+            else addBlockWithChildren(block);
+        }
+        return `[(ground [${blockIds.join(" ")}]) [?b ...]]`;
+    }
+
+    // Anki search restricting the anki notes fetched in scoped sync to the notes of the scope
+    private getScopeAnkiQuery(): string {
+        // Long searches are slow in anki, so large scopes fetch every note instead
+        if (this.scope == null || this.scopeBlockUUIDs.size > MAX_SCOPE_ANKI_QUERY_BLOCKS)
+            return null;
+        const escapeSearchText = (text: string) => text.replace(/[\\"*_]/g, "\\$&");
+        const searchTerms = _.flatMap([...this.scopeBlockUUIDs], (uuid) => [
+            `"uuid-type:${uuid}-*"`,
+            `"tag:${this.modelName}::${uuid}-*"`,
+        ]);
+        // Notes whose block was deleted are found using the page they were last synced from.
+        // Notes synced by older versions have no page in their Config until their next update,
+        // so their deletion is only picked up by a full sync.
+        for (const pageName of this.scopePageNames)
+            searchTerms.push(
+                `"Config:*${escapeSearchText(`"page":${JSON.stringify(pageName)}`)}*"`,
+            );
+        return searchTerms.length > 0 ? searchTerms.join(" OR ") : "nid:0";
+    }
+
+    // In scoped sync, only anki notes whose source block belongs to the scope may be deleted
+    private async getAnkiIdsInScope(ankiNoteInfos: any[]): Promise<Set<number>> {
+        const getUUID = (ankiNoteInfo) =>
+            _.get(ankiNoteInfo, "uuidType", "").split("-").slice(0, -1).join("-").toLowerCase();
+        if (this.scope == null)
+            return new Set(ankiNoteInfos.map((noteInfo) => noteInfo.noteId));
+        const inScopeNoteInfos = ankiNoteInfos.filter((noteInfo) =>
+            this.scopeBlockUUIDs.has(getUUID(noteInfo)),
+        );
+        if (this.scope.type == "page") {
+            // Blocks outside the scope pages are in scope only if they were deleted after being
+            // synced from a scope page
+            const movedOrDeletedNoteInfos = ankiNoteInfos.filter(
+                (noteInfo) =>
+                    getUUID(noteInfo) != "" &&
+                    !this.scopeBlockUUIDs.has(getUUID(noteInfo)) &&
+                    this.scopePageNames.has(
+                        (this.getAnkiNoteConfig(noteInfo).page || "").toLowerCase(),
+                    ),
+            );
+            const existingBlocks =
+                movedOrDeletedNoteInfos.length == 0
+                    ? []
+                    : await LogseqProxy.DB.datascriptQuery(`
+                    [:find (pull ?b [:block/uuid])
+                    :where
+                    [(ground [${movedOrDeletedNoteInfos
+                        .map((noteInfo) => `#uuid "${getUUID(noteInfo)}"`)
+                        .join(" ")}]) [?uuid ...]]
+                    [?b :block/uuid ?uuid]
+                    ]`);
+            const existingUUIDs = new Set(
+                (existingBlocks || []).map(([block]) =>
+                    String(getUUIDFromBlock(block)).toLowerCase(),
+                ),
+            );
+            inScopeNoteInfos.push(
+                ...movedOrDeletedNoteInfos.filter(
+                    (noteInfo) => !existingUUIDs.has(getUUID(noteInfo)),
+                ),
+            );
+        }
+        return new Set(inScopeNoteInfos.map((noteInfo) => noteInfo.noteId));
+    }
+
+    private getAnkiNoteConfig(ankiNodeInfo): any {
+        try {
+            return JSON.parse(_.get(ankiNodeInfo, "fields.Config.value"));
+        } catch (e) {
+            return {};
+        }
+    }
+
+    /**
+     * Matches the orphaned anki notes (about to be deleted) to the new notes (about to be created)
+     * using the similarity of their normalized content and their page.
+     * This keeps the review history of notes whose block uuid changed (e.g. block copied to another graph).
+     */
+    private async getRelinkCandidates(
+        toCreateNotes: Note[],
+        toDeleteNotes: number[],
+        ankiNoteManager: LazyAnkiNoteManager,
+    ): Promise<RelinkCandidate[]> {
+        if (toCreateNotes.length == 0 || toDeleteNotes.length == 0) return [];
+        const orphanedNotes = toDeleteNotes.map((ankiId) => {
+            const ankiNodeInfo = ankiNoteManager.noteInfoMap.get(ankiId);
+            const fields = _.omit(
+                _.mapValues(ankiNodeInfo.fields, (field) => field.value),
+                ["uuid-type", "uuid", "Breadcrumb", "Config"],
+            );
+            return {
+                ankiId,
+                type: _.last<string>((ankiNodeInfo.uuidType || "").split("-")),
+                page: this.getAnkiNoteConfig(ankiNodeInfo).page,
+                text: NoteUtils.getComparableText(
+                    ankiNodeInfo.modelName == this.modelName
+                        ? fields.Text
+                        : Object.values(fields).join("\n"),
+                ),
+            };
+        });
+        const newNotes = [];
+        for (const note of toCreateNotes) {
+            let text = "";
+            try {
+                text = NoteUtils.getComparableText((await this.parseNote(note))[0]);
+            } catch (e) {
+                console.error(e);
+            }
+            newNotes.push({note, type: note.type, page: _.get(note, "page.name"), text});
+        }
+        return NoteUtils.matchSimilarNotes(newNotes, orphanedNotes);
+    }
+
+    // Only notes of the graph's model store the hash of the synced fields (in Config).
+    // Notes using anki-model:: are not checked for conflicts and the sync dialog reports them.
+    private isConflictCheckable(note: Note): boolean {
+        return (note.getAnkiModelName() || this.modelName) == this.modelName;
+    }
+
+    // Returns the notes whose fields were edited in anki since the last sync.
+    // Notes offered to be pulled into logseq are left out.
+    private async getConflicts(
+        notes: Note[],
+        toPullNotes: Array<{ note: Note; ankiId: number; content: string }>,
+        ankiNoteManager: LazyAnkiNoteManager,
+    ): Promise<SyncConflict[]> {
+        const conflicts: SyncConflict[] = [];
+        for (const note of notes) {
+            if (toPullNotes.some((pullNote) => pullNote.note == note)) continue;
+            if (!this.isConflictCheckable(note)) continue;
+            const ankiId = note.getAnkiId();
+            const ankiNodeInfo = ankiNoteManager.noteInfoMap.get(ankiId);
+            if (ankiNodeInfo == null || ankiNodeInfo.modelName != this.modelName) continue;
+            const oldConfig = this.getAnkiNoteConfig(ankiNodeInfo);
+            if (oldConfig == null || oldConfig.fieldsHash == null) continue; // Synced by an older version
+            const ankiFields = _.mapValues(ankiNodeInfo.fields, (field) => field.value);
+            if (NoteHashCalculator.getFieldsHash(ankiFields) == oldConfig.fieldsHash) continue;
+            try {
+                const [html, assets, deck, breadcrumb, tags, extra] = await this.parseNote(note);
+                const logseqFields = await this.getAnkiFields(note, this.modelName, [
+                    html,
+                    assets,
+                    deck,
+                    breadcrumb,
+                    tags,
+                    extra,
+                ]);
+                conflicts.push({
+                    note,
+                    ankiId,
+                    logseqFields: _.omit(logseqFields, "Config"),
+                    ankiFields: _.omit(ankiFields, "Config"),
+                });
+            } catch (e) {
+                console.error(e); // The note will fail while updating too
+            }
+        }
+        return conflicts;
+    }
+
+    // Keeps the anki side version of the conflicting notes and marks it as the last synced version
+    private async keepAnkiSideEdits(
+        conflicts: SyncConflict[],
+        failedUpdated: { [key: string]: any },
+        skipped: { [key: string]: any },
+        ankiNoteManager: LazyAnkiNoteManager,
+        syncNotificationObj: ProgressNotification,
+    ): Promise<void> {
+        for (const {note, ankiId} of conflicts) {
+            if (syncNotificationObj.cancelled) {
+                skipped[`${note.uuid}-${note.type}`] = SKIPPED_ON_CANCEL;
+                continue;
+            }
+            try {
                 const ankiNodeInfo = ankiNoteManager.noteInfoMap.get(ankiId);
-                const oldConfig = ((configString) => {
-                    try {
-                        return JSON.parse(configString);
-                    } catch (e) {
-                        return {};
-                    }
-                })(ankiNodeInfo.fields.Config.value);
-                const [oldHtml, oldAssets, oldDeck, oldBreadcrumb, oldTags, oldExtra] = [
-                    ankiNodeInfo.fields.Text.value,
-                    oldConfig.assets,
+                const ankiFields = _.omit(
+                    _.mapValues(ankiNodeInfo.fields, (field) => field.value),
+                    "Config",
+                );
+                const oldConfig = this.getAnkiNoteConfig(ankiNodeInfo);
+                const dependencyHash = await NoteHashCalculator.getHash(note, [
+                    ankiFields.Text,
+                    [...(oldConfig.assets || [])],
                     ankiNodeInfo.deck,
-                    ankiNodeInfo.fields.Breadcrumb.value,
+                    ankiFields.Breadcrumb,
                     ankiNodeInfo.tags,
-                    ankiNodeInfo.fields.Extra.value,
-                ];
-                let dependencyHash = await NoteHashCalculator.getHash(note, [
-                    oldHtml,
-                    oldAssets,
-                    oldDeck,
-                    oldBreadcrumb,
-                    oldTags,
-                    oldExtra,
+                    ankiFields.Extra,
                 ]);
-                if (
-                    logseq.settings.skipOnDependencyHashMatch != true ||
-                    oldConfig.dependencyHash != dependencyHash
-                ) {
-                    // Reparse Note + update assets + update                    // Parse Note
-                    const [html, assets, deck, breadcrumb, tags, extra] = await this.parseNote(
-                        note,
-                    );
-                    dependencyHash = await NoteHashCalculator.getHash(note, [
-                        html,
-                        Array.from(assets),
-                        deck,
-                        breadcrumb,
-                        tags,
-                        extra,
-                    ]);
-                    // Add or update assets
-                    const graphPath = (await logseq.App.getCurrentGraph()).path;
-                    assets.forEach((asset) => {
-                        ankiNoteManager.storeAsset(
-                            path.basename(asset),
-                            path.join(graphPath, path.resolve(asset)),
-                        );
-                    });
-                    // Update note
-                    if (logseq.settings.debug.includes("syncLogseqToAnki.ts"))
-                        console.log(
-                            `dependencyHash mismatch for note with id ${note.uuid}-${note.type}`,
-                        );
-                    ankiNoteManager.updateNote(
-                        ankiId,
-                        deck,
-                        this.modelName,
-                        {
-                            "uuid-type": `${note.uuid}-${note.type}`,
-                            uuid: note.uuid,
-                            Text: html,
-                            Extra: extra,
-                            Breadcrumb: breadcrumb,
-                            Config: JSON.stringify({
-                                dependencyHash,
-                                assets: [...assets],
-                            }),
-                        },
-                        tags,
-                    );
-                } else {
-                    // Just update old assets
-                    oldConfig.assets.forEach((asset) => {
-                        if (ankiNoteManager.mediaInfo.has(path.basename(asset))) return;
-                        ankiNoteManager.storeAsset(
-                            path.basename(asset),
-                            path.join(graphPath, path.resolve(asset)),
-                        );
-                    });
-                }
+                ankiNoteManager.updateNote(
+                    ankiId,
+                    ankiNodeInfo.deck,
+                    this.modelName,
+                    {
+                        ...ankiFields,
+                        Config: JSON.stringify({
+                            ...oldConfig,
+                            dependencyHash,
+                            textHash: NoteHashCalculator.getTextHash(ankiFields.Text),
+                            fieldsHash: NoteHashCalculator.getFieldsHash(ankiFields),
+                        }),
+                    },
+                    ankiNodeInfo.tags,
+                    `${note.uuid}-${note.type}`,
+                );
             } catch (e) {
                 console.error(e);
                 failedUpdated[`${note.uuid}-${note.type}`] = e;
             }
             syncNotificationObj.increment();
         }
+    }
 
-        let subOperationResults = await ankiNoteManager.execute("updateNotes");
-        for (const subOperationResult of subOperationResults) {
-            if (subOperationResult != null && subOperationResult.error != null) {
-                console.error(subOperationResult.error);
-                failedUpdated[subOperationResult["uuid-type"]] = subOperationResult.error;
+    // Returns the notes whose Text field was edited in anki since the last sync
+    private getAnkiSideEdits(
+        notes: Note[],
+        ankiNoteManager: LazyAnkiNoteManager,
+    ): Array<{ note: Note; ankiId: number; content: string }> {
+        const ankiSideEdits = [];
+        for (const note of notes) {
+            // Only plain markdown cloze blocks can be converted back reliably
+            if (
+                note.type != "cloze" ||
+                note.format != "markdown" ||
+                note.properties.replacecloze ||
+                note.properties[".replacecloze"]
+            )
+                continue;
+            const ankiId = note.getAnkiId();
+            const ankiNodeInfo = ankiNoteManager.noteInfoMap.get(ankiId);
+            if (ankiNodeInfo == null || ankiNodeInfo.modelName != this.modelName) continue;
+            let lastSyncedTextHash = null;
+            try {
+                lastSyncedTextHash = JSON.parse(ankiNodeInfo.fields.Config.value).textHash;
+            } catch (e) {}
+            // Only the note's own html is compared and pulled (not the parent blocks around it)
+            const ankiText = ankiNodeInfo.fields.Text.value;
+            if (
+                lastSyncedTextHash == null ||
+                NoteHashCalculator.getTextHash(ankiText) == lastSyncedTextHash
+            )
+                continue;
+
+            // Keep the logseq properties of the block (they are placed after its first line)
+            let properties = "";
+            const contentWithoutProperties = safeReplace(
+                note.content,
+                MD_PROPERTIES_REGEXP,
+                (match) => {
+                    properties += match.endsWith("\n") ? match : `${match}\n`;
+                    return "";
+                },
+            ).trim();
+            const pulledContent = convertHTMLToLogseq(getNoteOwnHTML(ankiText));
+            if (pulledContent == "" || pulledContent == contentWithoutProperties) continue;
+            const [firstLine, ...otherLines] = pulledContent.split("\n");
+            ankiSideEdits.push({
+                note,
+                ankiId,
+                content: [firstLine, ...(properties ? [properties.trimEnd()] : []), ...otherLines].join(
+                    "\n",
+                ),
+            });
+        }
+        return ankiSideEdits;
+    }
+
+    private async pullNotes(
+        toPullNotes: Array<{ note: Note; ankiId: number; content: string }>,
+        failedPulled: { [key: string]: any },
+        skipped: { [key: string]: any },
+        syncNotificationObj: ProgressNotification,
+    ): Promise<void> {
+        for (const {note, content} of toPullNotes) {
+            if (syncNotificationObj.cancelled) {
+                skipped[`${note.uuid}-${note.type}`] = SKIPPED_ON_CANCEL;
+                continue;
+            }
+            try {
+                await LogseqProxy.Editor.updateBlock(note.uuid, content);
+            } catch (e) {
+                console.error(e);
+                failedPulled[`${note.uuid}-${note.type}`] = e;
             }
+            syncNotificationObj.increment();
+        }
+    }
+
+    // Mirror the scheduling data of the anki cards as block properties (eg: anki-interval:: 12)
+    private async writeReviewStatsToLogseq(
+        notes: Note[],
+        ankiNoteManager: LazyAnkiNoteManager,
+    ): Promise<void> {
+        const reviewStats = (logseq.settings.ankiReviewStatsInLogseq as string[]) || [];
+        if (reviewStats.length == 0) return;
+        try {
+            const ankiNoteInfos = notes
+                .map((note) => ankiNoteManager.noteInfoMap.get(note.getAnkiId()))
+                .filter((noteInfo) => noteInfo != null);
+            const cardsInfo = await AnkiConnect.invoke("cardsInfo", {
+                cards: _.flatMap(ankiNoteInfos, (noteInfo) => noteInfo.cards),
+            });
+            const reviewedCardsByNote = _.groupBy(
+                cardsInfo.filter((card) => card.type == 2 || card.type == 3), // review or relearning cards
+                "note",
+            );
+            const reviewLogs: {[cardId: string]: any[]} = reviewStats.includes("due")
+                ? await AnkiConnect.invoke("getReviewsOfCards", {
+                      cards: _.flatMap(Object.values(reviewedCardsByNote), (cards) =>
+                          cards.map((card) => String(card.cardId)),
+                      ),
+                  })
+                : {};
+
+            for (const note of notes) {
+                const reviewedCards = reviewedCardsByNote[note.getAnkiId()];
+                if (reviewedCards == null || reviewedCards.length == 0) continue;
+                const dueDates = reviewedCards
+                    .map((card) => _.maxBy(reviewLogs[card.cardId] || [], "id"))
+                    .filter((lastReview) => lastReview != null && lastReview.ivl > 0)
+                    .map((lastReview) => lastReview.id + lastReview.ivl * 24 * 60 * 60 * 1000);
+                const stats = {
+                    interval: _.min(reviewedCards.map((card) => card.interval)),
+                    lapses: _.sumBy(reviewedCards, "lapses"),
+                    due:
+                        dueDates.length > 0
+                            ? new Date(_.min(dueDates)).toISOString().slice(0, 10)
+                            : null,
+                    ease: `${_.min(reviewedCards.map((card) => card.factor)) / 10}%`,
+                    reviews: _.sumBy(reviewedCards, "reps"),
+                };
+                for (const stat of reviewStats) {
+                    if (stats[stat] == null) continue;
+                    const oldValue = getLogseqBlockPropSafe(note, `properties.anki-${stat}`);
+                    if (String(oldValue) == String(stats[stat])) continue;
+                    await LogseqProxy.Editor.upsertBlockProperty(
+                        note.uuid,
+                        `anki-${stat}`,
+                        stats[stat],
+                    );
+                }
+            }
+        } catch (e) {
+            console.error("Failed to write anki review stats to logseq:", e);
         }
     }
 
@@ -483,11 +1382,23 @@ export class LogseqToAnkiSync {
     private async deleteNotes(
         toDeleteNotes: number[],
         failedDeleted : { [key: string]: any },
+        skipped: { [key: string]: any },
         ankiNoteManager: LazyAnkiNoteManager,
         syncNotificationObj: ProgressNotification,
     ) {
+        const orphanedNotesHandling = this.getOrphanedNotesHandling();
         for (const ankiId of toDeleteNotes) {
-            ankiNoteManager.deleteNote(ankiId);
+            if (syncNotificationObj.cancelled) {
+                skipped[ankiId] = SKIPPED_ON_CANCEL;
+                continue;
+            }
+            if (orphanedNotesHandling)
+                ankiNoteManager.orphanNote(
+                    ankiId,
+                    orphanedNotesHandling,
+                    (logseq.settings.quarantineDeck as string) || "Logseq Quarantine",
+                );
+            else ankiNoteManager.deleteNote(ankiId);
             syncNotificationObj.increment();
         }
         const subOperationResults = await ankiNoteManager.execute("deleteNotes");
@@ -499,6 +1410,114 @@ export class LogseqToAnkiSync {
         }
     }
 
+    private getParseConcurrency(): number {
+        return Math.max(1, Math.floor(Number(logseq.settings.parseConcurrency) || 1));
+    }
+
+    // Returns how notes whose blocks were removed should be soft deleted, null if they should be deleted
+    private getOrphanedNotesHandling(): "suspend" | "tag" | "quarantine" {
+        switch (logseq.settings.orphanedAnkiNotes) {
+            case "Suspend":
+                return "suspend";
+            case "Tag as logseq-orphan":
+                return "tag";
+            case "Move to quarantine deck":
+                return "quarantine";
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Permanently deletes the soft deleted (orphaned) anki notes of this graph that have been orphaned
+     * for more than purgeOrphansAfterDays days.
+     */
+    public async purgeOrphanedNotes(): Promise<void> {
+        if (LogseqToAnkiSync.isSyncing) {
+            logseq.UI.showMsg("Please wait for the running sync to finish.", "warning");
+            return;
+        }
+        LogseqToAnkiSync.isSyncing = true;
+        try {
+            await this.initGraphAndModelName();
+            await AnkiConnect.requestPermission();
+            const purgeAfterDays = Math.max(Number(logseq.settings.purgeOrphansAfterDays ?? 30) || 0, 0);
+            const cutoffDate = new Date(Date.now() - purgeAfterDays * 24 * 60 * 60 * 1000)
+                .toISOString()
+                .slice(0, 10);
+            const ankiIds = await AnkiConnect.query(
+                `("note:${this.modelName}" OR "tag:${this.modelName}::*") "tag:${ANKI_ORPHAN_TAG}"`,
+            );
+            const noteInfos = await AnkiConnect.invoke("notesInfo", {notes: ankiIds});
+            const toPurgeAnkiIds = noteInfos
+                .filter((noteInfo) => {
+                    const orphanedOn = _.find(
+                        noteInfo.tags.map((tag) =>
+                            _.get(tag.match(/^logseq-orphan::(\d{4}-\d{2}-\d{2})$/i), 1),
+                        ),
+                    );
+                    return orphanedOn != null && orphanedOn <= cutoffDate;
+                })
+                .map((noteInfo) => noteInfo.noteId);
+            if (toPurgeAnkiIds.length == 0) {
+                logseq.UI.showMsg(`No notes have been orphaned for more than ${purgeAfterDays} days.`);
+                return;
+            }
+            const confirm_msg = `<b class="text-red-600">This will permanently delete ${toPurgeAnkiIds.length} orphaned anki note(s) along with their review history.</b><br/>Are you sure you want to continue?`;
+            if (!(await Confirm(confirm_msg))) return;
+            await AnkiConnect.invoke("deleteNotes", {notes: toPurgeAnkiIds});
+            logseq.UI.showMsg(`Purged ${toPurgeAnkiIds.length} orphaned anki note(s).`, "success");
+        } catch (e) {
+            handleAnkiError(e.toString());
+            console.error(e);
+        } finally {
+            LogseqToAnkiSync.isSyncing = false;
+        }
+    }
+
+    /**
+     * Reverts the changes made to anki by the last sync using the sync journal.
+     * Logseq blocks are left untouched, so the next sync applies the changes again.
+     */
+    public async undoLastSync(): Promise<void> {
+        if (LogseqToAnkiSync.isSyncing) {
+            logseq.UI.showMsg("Please wait for the running sync to finish.", "warning");
+            return;
+        }
+        LogseqToAnkiSync.isSyncing = true;
+        try {
+            await this.initGraphAndModelName();
+            await AnkiConnect.requestPermission();
+            const journal = await SyncJournal.load(this.modelName);
+            if (journal == null || journal.isEmpty()) {
+                logseq.UI.showMsg("There is no sync to undo.");
+                return;
+            }
+            const confirm_msg = `This will undo the changes made to anki by the last sync (${new Date(
+                journal.timestamp,
+            ).toLocaleString()}). Notes created by it will be deleted and notes changed or deleted by it will be restored.<br/><sub>NB: Review history of deleted notes can't be restored.</sub><br/>Are you sure you want to continue?`;
+            if (!(await Confirm(confirm_msg))) return;
+            const subOperationResults = await journal.undo();
+            await SyncJournal.clear(this.modelName);
+            await AnkiConnect.invoke("reloadCollection", {});
+            const failedCount = subOperationResults.filter(
+                (subOperationResult) => subOperationResult != null && subOperationResult.error != null,
+            ).length;
+            if (failedCount > 0) {
+                console.error(subOperationResults);
+                logseq.UI.showMsg(
+                    `Last sync undone with ${failedCount} failed operation(s). Check the console for details.`,
+                    "warning",
+                );
+            } else logseq.UI.showMsg("Last sync undone.", "success");
+        } catch (e) {
+            handleAnkiError(e.toString());
+            console.error(e);
+        } finally {
+            LogseqToAnkiSync.isSyncing = false;
+        }
+    }
+
     private async parseNote(
         note: Note,
     ): Promise<[string, Set<string>, string, string, string[], string]> {
@@ -534,7 +1553,7 @@ export class LogseqToAnkiSync {
                 newHtml += `<ul class="children-list"><li class="children ${_.get(parentBlock, "properties['logseq.orderListType']") == "number" ? 'numbered' : ''}">
                                 ${parentBlockConverted.html}`;
             }
-            newHtml += `<ul class="children-list"><li class="children ${_.get(note, "properties['logseq.orderListType']") == "number" ? 'numbered' : ''}">
+            newHtml += `<ul class="children-list"><li class="children note-content ${_.get(note, "properties['logseq.orderListType']") == "number" ? 'numbered' : ''}">
                             ${html}</li></ul>`;
             parentBlocks.reverse().forEach((parentBlock) => {
                 newHtml += `</li></ul>`;
@@ -543,56 +1562,12 @@ export class LogseqToAnkiSync {
         }
 
         // Parse useNamespaceAsDefaultDeck value (based on https://github.com/debanjandhar12/logseq-anki-sync/pull/143)
-        let useNamespaceAsDefaultDeck = null;
-        try {
-            let parentNamespaceID : number = note.page.id;
-            while (parentNamespaceID != null) {
-                let parentNamespacePage = await LogseqProxy.Editor.getPage(parentNamespaceID);
-                if(!parentNamespacePage) break;
-                if ([true, "true"].includes(getLogseqBlockPropSafe(parentNamespacePage, "properties.use-namespace-as-default-deck"))) {
-                    useNamespaceAsDefaultDeck = true;
-                    break;
-                }
-                else if ([false, "false"].includes(getLogseqBlockPropSafe(parentNamespacePage, "properties.use-namespace-as-default-deck"))) {
-                    useNamespaceAsDefaultDeck = false;
-                    break;
-                }
-
-                parentNamespaceID = _.get(parentNamespacePage, 'namespace.id', null);
-            }
-        } catch (e) {
-            console.error(e);
-        }
+        const resolvedConfig = await InheritanceResolver.resolve(note);
+        let useNamespaceAsDefaultDeck: any = resolvedConfig.useNamespaceAsDefaultDeck;
         if (useNamespaceAsDefaultDeck == null) useNamespaceAsDefaultDeck = logseq.settings.useNamespaceAsDefaultDeck;
 
         // Parse deck using logic described at https://github.com/debanjandhar12/logseq-anki-sync/wiki/How-to-set-or-change-the-deck-for-cards%3F
-        let deck: any = null;
-        try {
-            let parentBlockUUID : string | number = note.uuid;
-            while (parentBlockUUID != null) {
-                const parentBlock = await LogseqProxy.Editor.getBlock(parentBlockUUID);
-                if (getLogseqBlockPropSafe(parentBlock, "properties.deck") != null) {
-                    deck = getLogseqBlockPropSafe(parentBlock, "properties.deck");
-                    break;
-                }
-                parentBlockUUID = _.get(parentBlock, "parent.id", null);
-            }
-        } catch (e) { console.error(e); }
-
-        if (deck === null) {
-            try {
-                let parentNamespaceID : number = note.page.id;
-                while (parentNamespaceID != null) {
-                    let parentNamespacePage = await LogseqProxy.Editor.getPage(parentNamespaceID);
-                    if(!parentNamespacePage) break;
-                    if (getLogseqBlockPropSafe(parentNamespacePage, "properties.deck") != null) {
-                        deck = getLogseqBlockPropSafe(parentNamespacePage, "properties.deck");
-                        break;
-                    }
-                    parentNamespaceID = _.get(parentNamespacePage, 'namespace.id', null);
-                }
-            } catch (e) { console.error(e); }
-        }
+        let deck: any = resolvedConfig.deck;
 
         if (deck === null && useNamespaceAsDefaultDeck == true) {
             deck = splitNamespace(
@@ -648,27 +1623,7 @@ export class LogseqToAnkiSync {
         }
 
         // Parse tags
-        tags = [...Array.from(tags)];
-        try {
-            let parentBlockUUID : string | number = note.uuid;
-            while (parentBlockUUID != null) {
-                const parentBlock = await LogseqProxy.Editor.getBlock(parentBlockUUID);
-                tags = [...tags, ...getCaseInsensitive(parentBlock, "properties.tags", [])];
-                parentBlockUUID = _.get(parentBlock, "parent.id", null);
-            }
-        } catch (e) {
-            console.error(e);
-        }
-        try {
-            let parentNamespaceID : number = _.get(note, "page.id", null);
-            while (parentNamespaceID != null) {
-                const parentNamespacePage = await LogseqProxy.Editor.getPage(parentNamespaceID);
-                tags = [...tags, ...getCaseInsensitive(parentNamespacePage, "properties.tags", [])];
-                parentNamespaceID = _.get(parentNamespacePage, "namespace.id", null);
-            }
-        } catch (e) {
-            console.error(e);
-        }
+        tags = [...Array.from(tags), ...resolvedConfig.tags];
         tags = tags.map((tag) => tag.replace(/\//g, "::"));
         tags = tags.map((tag) => tag.replace(/\s/g, "_")); // Anki doesn't like spaces in tags
         tags = _.uniq(tags);
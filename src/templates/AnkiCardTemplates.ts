@@ -5,6 +5,8 @@ import logseq_anki_sync_js from "./_logseq_anki_sync.js?string";
 import logseq_anki_sync_front_js from "./_logseq_anki_sync_front.js?string";
 import logseq_anki_sync_back_js from "./_logseq_anki_sync_back.js?string";
 import template from "./template.html?raw";
+import {MERMAID_RUNTIME_FILENAME} from "../constants";
+import {getMermaidRuntime} from "../utils/renderMermaidToSVG";
 
 function getTemplate() {
     const templateModifiedBasedOnUserSetting = template;
@@ -46,8 +48,8 @@ export function getTemplateBack() {
         <link rel="stylesheet" href="_logseq_anki_sync_back.css">`;
 }
 
-export function getTemplateMediaFiles() {
-    return {
+export async function getTemplateMediaFiles() {
+    const templateMediaFiles = {
         "_logseq_anki_sync.css": logseq_anki_sync_css,
         "_logseq_anki_sync_front.css": logseq_anki_sync_front_css,
         "_logseq_anki_sync_back.css": logseq_anki_sync_back_css,
@@ -55,4 +57,7 @@ export function getTemplateMediaFiles() {
         "_logseq_anki_sync_front.js": logseq_anki_sync_front_js,
         "_logseq_anki_sync_back.js": logseq_anki_sync_back_js,
     };
+    if (logseq.settings.mermaidDiagrams == "Render in Anki")
+        templateMediaFiles[MERMAID_RUNTIME_FILENAME] = await getMermaidRuntime();
+    return templateMediaFiles;
 }
@@ -28,6 +28,7 @@ window.openBlockInLogseq = (uuid) => {
 const onLoadHandler = () => {
     displayTag();
     handleTypeInTag();
+    renderMermaidDiagrams();
 };
 
 function displayTag() {
@@ -46,6 +47,26 @@ function handleTypeInTag() {
     }
 }
 
+// The mermaid runtime is added to media folder only when "Render in Anki" option is selected
+function renderMermaidDiagrams() {
+    if (document.querySelector('.mermaid:not([data-processed])') == null) return;
+    const run = () => {
+        window.mermaid.initialize({
+            startOnLoad: false,
+            theme: document.body.classList.contains('nightMode') ? 'dark' : 'default'
+        });
+        window.mermaid.run({querySelector: '.mermaid:not([data-processed])'})
+            .catch((e) => console.log(e));
+    };
+    if (window.mermaid) return run();
+    if (document.getElementById('mermaid-runtime')) return; // Still loading
+    let script = document.createElement('script');
+    script.id = 'mermaid-runtime';
+    script.src = '_logseq_anki_sync_mermaid.js';
+    script.addEventListener('load', run);
+    document.head.appendChild(script);
+}
+
 if (document.readyState === "complete") {
     onLoadHandler();
     window.addEventListener("load", onLoadHandler);
@@ -2,6 +2,7 @@
  * This files contains the js for the back side of anki cards.
  */
 import {compareAnswer} from "./compareAnswer";
+import {renderImageOcclusion} from "./renderImageOcclusion";
 
 const onLoadHandler = () => {
     if (!document.getElementsByClassName("anki-card-back-side")[0]) {
@@ -10,10 +11,12 @@ const onLoadHandler = () => {
     }
     handleImageOcclusion();
     handleTypeInTag();
+    handleMultipleChoiceQuestion();
 };
 
 function handleImageOcclusion() {
     if (window.type == "image_occlusion") {
+        renderImageOcclusion(true);
         // Show the main content
         document.getElementById("main-content").style.visibility = "visible";
     }
@@ -36,6 +39,55 @@ function handleTypeInTag() {
     }
 }
 
+function handleMultipleChoiceQuestion() {
+    if (window.type !== "mcq") return;
+    let optionsList = document.getElementsByClassName("mcq-options")[0];
+    if (optionsList == null || optionsList.classList.contains("mcq-graded")) return; // Load event may trigger multiple times
+    optionsList.classList.add("mcq-graded");
+
+    let answerKey = document.getElementById("mcq-answer-key");
+    let correct = answerKey
+        ? answerKey.innerText.split(",").map((id) => id.trim()).filter((id) => id != "")
+        : [];
+    let state = null;
+    try {
+        state = JSON.parse(localStorage.getItem("logseq-mcq-state"));
+    } catch (e) {}
+    if (state == null || state.id !== window.uuid_type) state = null; // Front side of this card wasn't shown
+
+    // Show the options in the same order as front side
+    let options = Array.from(optionsList.getElementsByClassName("mcq-option"));
+    if (state && Array.isArray(state.order)) {
+        options.sort(
+            (a, b) =>
+                state.order.indexOf(a.getAttribute("data-option")) -
+                state.order.indexOf(b.getAttribute("data-option")),
+        );
+        options.forEach((option) => optionsList.appendChild(option));
+    }
+
+    let answeredCorrectly = 0;
+    for (let option of options) {
+        let id = option.getAttribute("data-option");
+        let isCorrect = correct.includes(id);
+        let isSelected = state != null && state.selected.includes(id);
+        let checkbox = option.getElementsByClassName("mcq-checkbox")[0];
+        checkbox.checked = isSelected;
+        checkbox.disabled = true;
+        if (isCorrect && (isSelected || state == null)) option.classList.add("mcq-correct");
+        else if (isCorrect) option.classList.add("mcq-missed");
+        else if (isSelected) option.classList.add("mcq-incorrect");
+        if (isCorrect == isSelected) answeredCorrectly++;
+    }
+    if (state == null) return;
+
+    let result = document.createElement("div");
+    result.className =
+        answeredCorrectly == options.length ? "mcq-result mcq-result-pass" : "mcq-result mcq-result-fail";
+    result.innerText = `${answeredCorrectly} / ${options.length} options answered correctly`;
+    optionsList.after(result);
+}
+
 if (document.readyState === "complete") {
     onLoadHandler();
     window.addEventListener("load", onLoadHandler);
@@ -1,9 +1,7 @@
 /***
  * This files contains the js for the front side of anki cards.
  */
-import {fabric} from "fabric";
-import {createOcclusionRectEl} from "../ui/customized/OcclusionEditor";
-import path from "path-browserify";
+import {renderImageOcclusion} from "./renderImageOcclusion";
 
 const onLoadHandler = () => {
     if (!document.getElementsByClassName("anki-card-front-side")[0]) {
@@ -13,115 +11,12 @@ const onLoadHandler = () => {
     handleImageOcclusion();
     handleShowAllTestOneTagForClozesAndMultilineIncrementalCards();
     handleTypeInTag();
+    handleMultipleChoiceQuestion();
 };
 
 function handleImageOcclusion() {
     if (window.type !== "image_occlusion") return;
-
-    // Get current cloze id (only works for image occlusion)
-    let currentClozeId = "-1";
-    for (let i = 1; i <= 9; i++)
-        if (document.getElementById(`c${i}`)) currentClozeId = `${i}`;
-    console.log(`Current cloze id: ${currentClozeId}`);
-    if (currentClozeId == "-1") return;
-    if (!document.getElementById("localImgBasePath")) return;
-    // Get localImgBasePath
-    let localImgBasePath = document.getElementById("localImgBasePath").src;
-    localImgBasePath = localImgBasePath.substring(0, localImgBasePath.lastIndexOf("/"));
-    // Replace all images with canvas
-    let imgToCanvasListHashMap = {};
-    let images = Array.from(document.getElementsByTagName("img"));
-    for (let image of images) {
-        image.style.visibility = "hidden";
-        let canvasEl = document.createElement("canvas");
-        canvasEl.width = image.width;
-        canvasEl.height = image.height;
-        let canvas = new fabric.Canvas(canvasEl, {
-            imageSmoothingEnabled: false,
-        });
-        let imgEl = new Image();
-        imgEl.src = image.src;
-        imgEl.onload = function () {
-            let imgFabric = new fabric.Image(imgEl);
-            let scaleX = canvas.width / imgFabric.width,
-                scaleY = canvas.height / imgFabric.height;
-            canvas.setViewportTransform([scaleX, 0, 0, scaleY, 0, 0]);
-            canvas.setBackgroundImage(imgFabric, canvas.renderAll.bind(canvas), {
-                scaleX: 1,
-                scaleY: 1,
-            });
-        };
-        canvasEl.style.position = "relative";
-        image.replaceWith(canvasEl);
-        if (imgToCanvasListHashMap[image.src] == null)
-            imgToCanvasListHashMap[image.src] = [];
-        imgToCanvasListHashMap[image.src].push(canvas);
-    }
-
-    // Show the main content (without images)
-    document.getElementById("main-content").style.visibility = "visible";
-
-    // Iterate the images in imgToOcclusionDataHashMap and inject the canvas into dom instead of images
-    let imgToOcclusionDataHashMap = JSON.parse(
-        document.getElementById("imgToOcclusionDataHashMap").innerHTML,
-    );
-    for (let image in imgToOcclusionDataHashMap) {
-        let occlusionElements = imgToOcclusionDataHashMap[image].elements;
-        let occlusionConfig = imgToOcclusionDataHashMap[image].config;
-        console.log(occlusionConfig);
-        occlusionElements.forEach((occlusionElem) => {
-            let canvasList =
-                imgToCanvasListHashMap[localImgBasePath + "/" + path.basename(image)] ||
-                imgToCanvasListHashMap[
-                    encodeURI(localImgBasePath + "/" + path.basename(image))
-                    ] ||
-                imgToCanvasListHashMap[image] ||
-                imgToCanvasListHashMap[encodeURI(image)] ||
-                [];
-            if (occlusionElem.cId == currentClozeId) {
-                canvasList.forEach((canvas) => {
-                    let occlusion = createOcclusionRectEl(
-                        occlusionElem.left,
-                        occlusionElem.top,
-                        occlusionElem.width,
-                        occlusionElem.height,
-                        occlusionElem.angle,
-                        occlusionElem.cId,
-                    );
-                    occlusion._objects[0].set("opacity", 1);
-                    canvas.add(occlusion);
-                    canvas.renderAll();
-                });
-            } else if (
-                occlusionElem.cId != currentClozeId &&
-                occlusionConfig.hideAllTestOne == true
-            ) {
-                canvasList.forEach((canvas) => {
-                    let occlusion = createOcclusionRectEl(
-                        occlusionElem.left,
-                        occlusionElem.top,
-                        occlusionElem.width,
-                        occlusionElem.height,
-                        occlusionElem.angle,
-                        occlusionElem.cId,
-                    );
-                    occlusion._objects[0].set("opacity", 1);
-                    occlusion._objects[0].set("fill", "#3b4042");
-                    occlusion._objects[0].set("stroke", "#2a3942");
-                    occlusion._objects[1].set("opacity", 0);
-                    canvas.add(occlusion);
-                    canvas.renderAll();
-                });
-            }
-        });
-    }
-    // Change the style of canvas
-    let canvases = Array.from(document.getElementsByTagName("canvas"));
-    for (let canvasEl of canvases) {
-        if (!canvasEl.classList.contains("lower-canvas")) continue;
-        canvasEl.style['user-select'] = 'inherit';
-        canvasEl.style['touch-action'] = 'inherit';
-    }
+    renderImageOcclusion(false);
 }
 
 function handleShowAllTestOneTagForClozesAndMultilineIncrementalCards() {
@@ -194,6 +89,38 @@ function handleTypeInTag() {
     typeans.onkeyup = onInput;
 }
 
+function handleMultipleChoiceQuestion() {
+    if (window.type !== "mcq") return;
+    let optionsList = document.getElementsByClassName("mcq-options")[0];
+    if (optionsList == null || optionsList.classList.contains("mcq-shuffled")) return; // Load event may trigger multiple times
+    optionsList.classList.add("mcq-shuffled");
+
+    // Shuffle the options (Fisher-Yates)
+    let options = Array.from(optionsList.getElementsByClassName("mcq-option"));
+    for (let i = options.length - 1; i > 0; i--) {
+        let j = Math.floor(Math.random() * (i + 1));
+        [options[i], options[j]] = [options[j], options[i]];
+    }
+    options.forEach((option) => optionsList.appendChild(option));
+
+    // Keep the order and selection so that back side can grade them
+    let state = {
+        id: window.uuid_type,
+        order: options.map((option) => option.getAttribute("data-option")),
+        selected: [],
+    };
+    localStorage.setItem("logseq-mcq-state", JSON.stringify(state));
+    for (let option of options) {
+        let checkbox = option.getElementsByClassName("mcq-checkbox")[0];
+        checkbox.onchange = () => {
+            state.selected = options
+                .filter((option) => option.getElementsByClassName("mcq-checkbox")[0].checked)
+                .map((option) => option.getAttribute("data-option"));
+            localStorage.setItem("logseq-mcq-state", JSON.stringify(state));
+        };
+    }
+}
+
 if (document.readyState === "complete") {
     onLoadHandler();
     window.addEventListener("load", onLoadHandler);
@@ -0,0 +1,162 @@
+/***
+ * Renders the image occlusion masks on both sides of anki cards.
+ */
+import {fabric} from "fabric";
+import {createOcclusionEl} from "../ui/customized/OcclusionEditor";
+import path from "path-browserify";
+
+// Cards synced before reveal modes were added only have the hideAllTestOne flag
+function getRevealMode(occlusionConfig) {
+    if (occlusionConfig.mode) return occlusionConfig.mode;
+    return occlusionConfig.hideAllTestOne == true ? "hide-all-guess-one" : "hide-one-guess-one";
+}
+
+// On front side, only the current cloze has the hint span.
+// On back side, the current cloze is the one wrapped in .cloze
+function getCurrentClozeId(isBackSide) {
+    if (isBackSide) {
+        let marker = document.querySelector(".cloze .occlusion-cid");
+        return marker ? marker.getAttribute("data-cid") : "-1";
+    }
+    let currentClozeId = "-1";
+    for (let i = 1; i <= 9; i++)
+        if (document.getElementById(`c${i}`)) currentClozeId = `${i}`;
+    return currentClozeId;
+}
+
+// Shows the labels of current masks on back side and their hint on front side
+function showOcclusionCaption(isBackSide, currentClozeId) {
+    if (document.getElementById("occlusion-caption")) return;
+    let captionSource = isBackSide
+        ? document.querySelector(".cloze .occlusion-cid")
+        : document.getElementById(`c${currentClozeId}`);
+    let caption = captionSource ? captionSource.textContent.trim() : "";
+    let textEl = document.querySelector("#main-content .text");
+    if (caption == "" || textEl == null) return;
+    let captionEl = document.createElement("div");
+    captionEl.id = "occlusion-caption";
+    captionEl.className = isBackSide
+        ? "occlusion-caption occlusion-answer"
+        : "occlusion-caption occlusion-hint";
+    captionEl.textContent = caption;
+    textEl.after(captionEl);
+}
+
+export function renderImageOcclusion(isBackSide) {
+    let currentClozeId = getCurrentClozeId(isBackSide);
+    console.log(`Current cloze id: ${currentClozeId}`);
+    if (currentClozeId == "-1") return;
+    showOcclusionCaption(isBackSide, currentClozeId);
+    if (!document.getElementById("localImgBasePath")) return;
+    // Get localImgBasePath
+    let localImgBasePath = document.getElementById("localImgBasePath").src;
+    localImgBasePath = localImgBasePath.substring(0, localImgBasePath.lastIndexOf("/"));
+    // Replace all images with canvas
+    let imgToCanvasListHashMap = {};
+    let images = Array.from(document.getElementsByTagName("img"));
+    for (let image of images) {
+        image.style.visibility = "hidden";
+        let canvasEl = document.createElement("canvas");
+        canvasEl.width = image.width;
+        canvasEl.height = image.height;
+        let canvas = new fabric.Canvas(canvasEl, {
+            imageSmoothingEnabled: false,
+        });
+        let imgEl = new Image();
+        imgEl.src = image.src;
+        imgEl.onload = function () {
+            let imgFabric = new fabric.Image(imgEl);
+            let scaleX = canvas.width / imgFabric.width,
+                scaleY = canvas.height / imgFabric.height;
+            canvas.setViewportTransform([scaleX, 0, 0, scaleY, 0, 0]);
+            canvas.setBackgroundImage(imgFabric, canvas.renderAll.bind(canvas), {
+                scaleX: 1,
+                scaleY: 1,
+            });
+        };
+        // Tapping a revealable mask removes it
+        canvas.on("mouse:down", (e) => {
+            if (e.target && e.target.isRevealable) {
+                canvas.remove(e.target);
+                canvas.renderAll();
+            }
+        });
+        canvasEl.style.position = "relative";
+        image.replaceWith(canvasEl);
+        if (imgToCanvasListHashMap[image.src] == null)
+            imgToCanvasListHashMap[image.src] = [];
+        imgToCanvasListHashMap[image.src].push(canvas);
+    }
+
+    // Show the main content (without images)
+    document.getElementById("main-content").style.visibility = "visible";
+
+    // Iterate the images in imgToOcclusionDataHashMap and inject the canvas into dom instead of images
+    let imgToOcclusionDataHashMap = JSON.parse(
+        document.getElementById("imgToOcclusionDataHashMap").innerHTML,
+    );
+    for (let image in imgToOcclusionDataHashMap) {
+        let occlusionElements = imgToOcclusionDataHashMap[image].elements;
+        let occlusionConfig = imgToOcclusionDataHashMap[image].config || {};
+        let revealMode = getRevealMode(occlusionConfig);
+        // The back side reveals all masks, unless the current mask is grouped
+        let isCurrentGrouped = occlusionElements.some(
+            (occlusionElem) => occlusionElem.cId == currentClozeId && occlusionElem.group,
+        );
+        let isAllRevealedOnBackSide = revealMode == "hide-all-guess-one" && !isCurrentGrouped;
+        console.log(occlusionConfig);
+        occlusionElements.forEach((occlusionElem) => {
+            let canvasList =
+                imgToCanvasListHashMap[localImgBasePath + "/" + path.basename(image)] ||
+                imgToCanvasListHashMap[
+                    encodeURI(localImgBasePath + "/" + path.basename(image))
+                    ] ||
+                imgToCanvasListHashMap[image] ||
+                imgToCanvasListHashMap[encodeURI(image)] ||
+                [];
+            let isCurrent = occlusionElem.cId == currentClozeId;
+            if (!isCurrent && revealMode == "hide-one-guess-one") return;
+            if (isCurrent && isBackSide && revealMode == "hide-one-guess-one") return;
+            if (!isCurrent && isBackSide && isAllRevealedOnBackSide) return;
+            canvasList.forEach((canvas) => {
+                let occlusion = createOcclusionEl(
+                    occlusionElem.shape,
+                    occlusionElem.left,
+                    occlusionElem.top,
+                    occlusionElem.width,
+                    occlusionElem.height,
+                    occlusionElem.angle,
+                    occlusionElem.cId,
+                    occlusionElem.points,
+                );
+                occlusion.set({selectable: false, hoverCursor: "default"});
+                occlusion._objects[0].set("opacity", 1);
+                if (isCurrent && isBackSide) {
+                    // Outline the revealed area
+                    occlusion._objects[0].set("fill", "transparent");
+                    occlusion._objects[0].set("stroke", "#ff0000");
+                    occlusion._objects[0].set("strokeWidth", 2);
+                    occlusion._objects[1].set("opacity", 0);
+                    occlusion.set({evented: false});
+                } else if (!isCurrent) {
+                    occlusion._objects[0].set("fill", "#3b4042");
+                    occlusion._objects[0].set("stroke", "#2a3942");
+                    occlusion._objects[1].set("opacity", 0);
+                }
+                if (revealMode == "progressive-reveal" && !(isCurrent && isBackSide)) {
+                    occlusion.isRevealable = true;
+                    occlusion.set({hoverCursor: "pointer"});
+                }
+                canvas.add(occlusion);
+                canvas.renderAll();
+            });
+        });
+    }
+    // Change the style of canvas
+    let canvases = Array.from(document.getElementsByTagName("canvas"));
+    for (let canvasEl of canvases) {
+        if (!canvasEl.classList.contains("lower-canvas")) continue;
+        canvasEl.style['user-select'] = 'inherit';
+        canvasEl.style['touch-action'] = 'inherit';
+    }
+}
@@ -7,14 +7,16 @@ import {
     ADD_OCCLUSION_ICON,
     ANKI_ICON,
     DONATE_ICON,
+    ELLIPSE_OCCLUSION_ICON,
+    FREEHAND_OCCLUSION_ICON,
     isWebURL_REGEXP,
+    POLYGON_OCCLUSION_ICON,
     REMOVE_OCCLUSION_ICON,
     SETTINGS_ICON,
 } from "../../constants";
 import {Modal} from "../general/Modal";
 import {LogseqButton} from "../basic/LogseqButton";
 import {LogseqDropdownMenu} from "../basic/LogseqDropdownMenu";
-import {LogseqCheckbox} from "../basic/LogseqCheckbox";
 import {createWorker, PSM} from "tesseract.js";
 import {LogseqProxy} from "../../logseq/LogseqProxy";
 import {UI} from "../UI";
@@ -25,17 +27,33 @@ if (!window.parent.fabric) {
     window.parent.document.body.appendChild(fabricScript);
 }
 
+export type OcclusionShape = "rect" | "ellipse" | "polygon" | "freehand";
+
+export type OcclusionPoint = {x: number; y: number};
+
 export type OcclusionElement = {
+    shape?: OcclusionShape; // Occlusions created before shapes were supported are rects
     left: number;
     top: number;
     width: number;
     height: number;
     angle: number;
     cId: number;
+    group?: string; // Masks sharing a group name are part of the same card
+    label?: string; // Answer shown on back side
+    hint?: string; // Shown on front side
+    // Vertices of polygon / freehand occlusions relative to their bounding box (0 to 1)
+    points?: Array<OcclusionPoint>;
 };
 
+export type OcclusionRevealMode =
+    | "hide-all-guess-one"
+    | "hide-one-guess-one"
+    | "progressive-reveal";
+
 export type OcclusionConfig = {
-    hideAllTestOne?: boolean;
+    hideAllTestOne?: boolean; // Replaced by mode. Kept for reading older occlusion data.
+    mode?: OcclusionRevealMode;
 };
 
 export type OcclusionData = {
@@ -86,8 +104,10 @@ const OcclusionEditorComponent: React.FC<{
     const fabricRef = React.useRef<any>();
     const canvasRef = React.useRef(null);
     const cidSelectorRef = React.useRef(null);
+    const groupInputRef = React.useRef(null);
     const [imgEl, setImgEl] = React.useState(new window.parent.Image());
     const handleConfirm = () => {
+        if (drawingRef.current) cancelDrawing();
         const newOcclusionElements = fabricRef.current.getObjects().map((obj) => {
             // https://github.com/fabricjs/fabric.js/issues/801#issuecomment-218116910
             const matrix = obj.calcTransformMatrix();
@@ -95,12 +115,17 @@ const OcclusionEditorComponent: React.FC<{
             const actualLeft = matrix[4];
 
             return {
+                shape: obj.occlusionShape || "rect",
                 left: actualLeft,
                 top: actualTop,
                 width: obj.getScaledWidth(),
                 height: obj.getScaledHeight(),
                 angle: obj.angle,
                 cId: parseInt(obj._objects[1].text),
+                ...(obj.occlusionGroup ? {group: obj.occlusionGroup} : {}),
+                ...(obj.occlusionLabel ? {label: obj.occlusionLabel} : {}),
+                ...(obj.occlusionHint ? {hint: obj.occlusionHint} : {}),
+                ...(obj.occlusionPoints ? {points: obj.occlusionPoints} : {}),
             };
         });
         resolve({
@@ -160,14 +185,19 @@ const OcclusionEditorComponent: React.FC<{
                 fabricRef.current.renderAll();
 
                 occlusionElements.forEach((obj) => {
-                    const occlusionEl = createOcclusionRectEl(
+                    const occlusionEl = createOcclusionEl(
+                        obj.shape,
                         obj.left,
                         obj.top,
                         obj.width,
                         obj.height,
                         obj.angle,
                         obj.cId,
+                        obj.points,
                     );
+                    if (obj.group) occlusionEl.occlusionGroup = obj.group;
+                    if (obj.label) occlusionEl.occlusionLabel = obj.label;
+                    if (obj.hint) occlusionEl.occlusionHint = obj.hint;
                     fabricRef.current.add(occlusionEl);
                 });
                 fabricRef.current.renderAll();
@@ -199,6 +229,7 @@ const OcclusionEditorComponent: React.FC<{
     React.useEffect(() => {
         if (fabricSelection && fabricSelection.length > 0) {
             cidSelectorRef.current.value = fabricSelection[0]._objects[1].text;
+            groupInputRef.current.value = fabricSelection[0].occlusionGroup || "";
         }
     }, [fabricSelection]);
 
@@ -276,11 +307,138 @@ const OcclusionEditorComponent: React.FC<{
         fabricRef.current.on("object:modified", preventOutOfBounds);
     }, [fabricRef]);
 
+    // Draw polygon (click to add points, double click / Enter to finish) and freehand
+    // occlusions
+    const [drawingTool, setDrawingTool] = React.useState<"polygon" | "freehand">(null);
+    const drawingRef = React.useRef<{
+        tool: "polygon" | "freehand";
+        points: Array<OcclusionPoint>;
+        preview: any;
+        isMouseDown: boolean;
+    }>(null);
+    const startDrawing = (tool: "polygon" | "freehand") => {
+        const isToggledOff = drawingRef.current && drawingRef.current.tool == tool;
+        if (drawingRef.current) cancelDrawing();
+        if (isToggledOff) return;
+        fabricRef.current.discardActiveObject();
+        fabricRef.current.selection = false;
+        fabricRef.current.skipTargetFind = true;
+        fabricRef.current.defaultCursor = "crosshair";
+        fabricRef.current.renderAll();
+        drawingRef.current = {tool, points: [], preview: null, isMouseDown: false};
+        setDrawingTool(tool);
+    };
+    const cancelDrawing = () => {
+        if (drawingRef.current && drawingRef.current.preview)
+            fabricRef.current.remove(drawingRef.current.preview);
+        drawingRef.current = null;
+        fabricRef.current.selection = true;
+        fabricRef.current.skipTargetFind = false;
+        fabricRef.current.defaultCursor = "default";
+        fabricRef.current.renderAll();
+        setDrawingTool(null);
+    };
+    const finishDrawing = () => {
+        const {tool, points} = drawingRef.current;
+        cancelDrawing();
+        const occlusionEl = createOcclusionElFromPoints(
+            tool,
+            points,
+            parseInt(cidSelectorRef.current.value) || 1,
+        );
+        if (occlusionEl == null) return;
+        fabricRef.current.add(occlusionEl);
+        fabricRef.current.setActiveObject(occlusionEl);
+        fabricRef.current.renderAll();
+    };
+    React.useEffect(() => {
+        if (!fabricRef || !fabricRef.current) return;
+        const updatePreview = () => {
+            const drawing = drawingRef.current;
+            if (drawing.preview) fabricRef.current.remove(drawing.preview);
+            drawing.preview = new window.parent.fabric.Polyline([...drawing.points], {
+                fill: "transparent",
+                stroke: "#000",
+                strokeWidth: 1,
+                strokeUniform: true,
+                selectable: false,
+                evented: false,
+                objectCaching: false,
+            });
+            fabricRef.current.add(drawing.preview);
+            fabricRef.current.renderAll();
+        };
+        const addPoint = (e: any, minDistance: number) => {
+            const pointer = fabricRef.current.getPointer(e.e);
+            const points = drawingRef.current.points;
+            const lastPoint = _.last(points);
+            minDistance = minDistance / fabricRef.current.getZoom();
+            if (
+                lastPoint &&
+                Math.hypot(pointer.x - lastPoint.x, pointer.y - lastPoint.y) < minDistance
+            )
+                return;
+            points.push({x: pointer.x, y: pointer.y});
+            updatePreview();
+        };
+        fabricRef.current.on("mouse:down", (e: any) => {
+            const drawing = drawingRef.current;
+            if (!drawing) return;
+            drawing.isMouseDown = true;
+            if (drawing.tool == "polygon" && drawing.points.length >= 3) {
+                // Clicking near the first point closes the polygon
+                const pointer = fabricRef.current.getPointer(e.e);
+                const firstPoint = drawing.points[0];
+                if (
+                    Math.hypot(pointer.x - firstPoint.x, pointer.y - firstPoint.y) <
+                    8 / fabricRef.current.getZoom()
+                ) {
+                    finishDrawing();
+                    return;
+                }
+            }
+            addPoint(e, 2);
+        });
+        fabricRef.current.on("mouse:move", (e: any) => {
+            const drawing = drawingRef.current;
+            if (!drawing || drawing.tool != "freehand" || !drawing.isMouseDown) return;
+            addPoint(e, 6);
+        });
+        fabricRef.current.on("mouse:up", () => {
+            const drawing = drawingRef.current;
+            if (!drawing) return;
+            drawing.isMouseDown = false;
+            if (drawing.tool == "freehand" && drawing.points.length > 0) finishDrawing();
+        });
+        fabricRef.current.on("mouse:dblclick", () => {
+            const drawing = drawingRef.current;
+            if (drawing && drawing.tool == "polygon") finishDrawing();
+        });
+    }, [fabricRef]);
+
+    // Edit label and hint of a mask by double-clicking it
+    const [editingMask, setEditingMask] = React.useState<{mask: any; key: number}>(null);
+    React.useEffect(() => {
+        if (!fabricRef || !fabricRef.current) return;
+        fabricRef.current.on("mouse:dblclick", (e: any) => {
+            if (drawingRef.current || !e.target) return;
+            setEditingMask({mask: e.target, key: Date.now()});
+        });
+    }, [fabricRef]);
+
     // Handle some key events
     React.useEffect(() => {
         if (!fabricRef || !open) return;
         const onKeydown = (e: KeyboardEvent) => {
             if (!fabricRef || !open) return;
+            if ((e.target as HTMLElement).tagName === "INPUT") return; // Typing group name
+            if (drawingRef.current && (e.key === "Escape" || e.key === "Enter")) {
+                if (e.key === "Enter" && drawingRef.current.tool == "polygon") finishDrawing();
+                else cancelDrawing();
+                e.preventDefault();
+                e.stopImmediatePropagation();
+                return;
+            }
             if (e.key === "Escape" && fabricRef.current.getActiveObjects().length > 0) {
                 console.log(fabricRef);
                 fabricRef.current.discardActiveObjects();
@@ -383,7 +541,7 @@ const OcclusionEditorComponent: React.FC<{
     }, [fabricRef, open]);
 
     // Create the UI
-    const addOcclusion = () => {
+    const addOcclusion = (shape: OcclusionShape = "rect") => {
         const randomLocation = {
             x:
                 Math.floor(Math.random() * (imgEl.width - 0.22 * imgEl.width)) +
@@ -392,7 +550,8 @@ const OcclusionEditorComponent: React.FC<{
                 Math.floor(Math.random() * (imgEl.height - 0.22 * imgEl.height)) +
                 0.11 * imgEl.height,
         };
-        const occlusionEl = createOcclusionRectEl(
+        const occlusionEl = createOcclusionEl(
+            shape,
             randomLocation.x,
             randomLocation.y,
             0.22 * imgEl.width,
@@ -403,13 +562,34 @@ const OcclusionEditorComponent: React.FC<{
         fabricRef.current.renderAll();
     };
     const deleteOcclusion = () => {
+        setEditingMask(null);
         fabricRef.current.remove(...fabricRef.current.getActiveObjects());
         fabricRef.current.renderAll();
     };
     const onCIdChange = () => {
+        const groups = _.compact(fabricSelection.map((obj) => obj.occlusionGroup));
+        fabricRef.current.getObjects().forEach((obj) => {
+            if (fabricSelection.includes(obj) || groups.includes(obj.occlusionGroup))
+                obj._objects[1].set("text", cidSelectorRef.current.value);
+        });
+        fabricRef.current.renderAll();
+    };
+    const onGroupChange = () => {
+        const group = groupInputRef.current.value.trim();
+        // Masks joining an existing group take its cloze id
+        const groupMember = fabricRef.current
+            .getObjects()
+            .find(
+                (obj) =>
+                    group != "" &&
+                    obj.occlusionGroup == group &&
+                    !fabricSelection.includes(obj),
+            );
         fabricSelection.forEach((obj) => {
-            obj._objects[1].set("text", cidSelectorRef.current.value);
+            obj.occlusionGroup = group != "" ? group : undefined;
+            if (groupMember) obj._objects[1].set("text", groupMember._objects[1].text);
         });
+        if (groupMember) cidSelectorRef.current.value = groupMember._objects[1].text;
         fabricRef.current.renderAll();
     };
     const [isAIGeneratingOcclusion, setIsAIGeneratingOcclusion] = useState(false);
@@ -483,6 +663,7 @@ const OcclusionEditorComponent: React.FC<{
                     null,
                     (counter++ % 9) + 1,
                 );
+                occlusionEl.occlusionLabel = paragraph.text.trim().replace(/\s+/g, " ");
                 fabricRef.current.add(occlusionEl);
                 fabricRef.current.renderAll();
             }
@@ -583,6 +764,14 @@ const OcclusionEditorComponent: React.FC<{
                                 ))}
                             </select>
                         </div>
+                        <input
+                            ref={groupInputRef}
+                            onChange={onGroupChange}
+                            className="form-input is-small"
+                            placeholder="Group"
+                            title="Masks sharing a group name are tested together in a single card"
+                            style={{marginLeft: "0.5rem", width: "100px", height: "1.8rem"}}
+                        />
                     </span>
                     <span
                         className={"anki_de"}
@@ -595,20 +784,28 @@ const OcclusionEditorComponent: React.FC<{
                         }}>
                         <LogseqButton color={"default"} size={"sm"} icon={SETTINGS_ICON} />
                         <div className={"image-occlusion-menu"}>
-                            <LogseqCheckbox
-                                checked={occlusionConfigState.hideAllTestOne}
-                                onChange={(e) =>
-                                    setOcclusionConfigState({
-                                        ...occlusionConfigState,
-                                        hideAllTestOne: e.target.checked,
-                                    })
-                                }>
-                                Hide All, Test One (
-                                <abbr title="When enabled, hides all occlusions including the one being tested during anki review.">
-                                    ?
-                                </abbr>
-                                )
-                            </LogseqCheckbox>
+                            <div className="flex items-center" style={{gap: "0.5rem"}}>
+                                <span className="text-sm">
+                                    Reveal Mode (
+                                    <abbr title="Hide One, Guess One: only the occlusions being tested are hidden. Hide All, Guess One: all occlusions are hidden. Progressive Reveal: all occlusions are hidden and tapping an occlusion during anki review reveals it.">
+                                        ?
+                                    </abbr>
+                                    )
+                                </span>
+                                <select
+                                    value={occlusionConfigState.mode || "hide-one-guess-one"}
+                                    onChange={(e) =>
+                                        setOcclusionConfigState({
+                                            ...occlusionConfigState,
+                                            mode: e.target.value as OcclusionRevealMode,
+                                        })
+                                    }
+                                    className="form-select is-small">
+                                    <option value="hide-one-guess-one">Hide One, Guess One</option>
+                                    <option value="hide-all-guess-one">Hide All, Guess One</option>
+                                    <option value="progressive-reveal">Progressive Reveal</option>
+                                </select>
+                            </div>
                             <hr style={{margin: "0.5rem"}} />
                             <div style={{marginLeft: "auto", marginRight: "auto"}}>
                                 <LogseqButton
@@ -629,9 +826,32 @@ const OcclusionEditorComponent: React.FC<{
                         color={"success"}
                         size={"sm"}
                         title={"Add Occlusion"}
-                        onClick={addOcclusion}
+                        onClick={() => addOcclusion()}
                         icon={ADD_OCCLUSION_ICON}
                     />
+                    <LogseqButton
+                        color={"success"}
+                        size={"sm"}
+                        title={"Add Ellipse Occlusion"}
+                        onClick={() => addOcclusion("ellipse")}
+                        icon={ELLIPSE_OCCLUSION_ICON}
+                    />
+                    <LogseqButton
+                        color={drawingTool == "polygon" ? "primary" : "success"}
+                        size={"sm"}
+                        title={
+                            "Draw Polygon Occlusion (click to add points, double click to finish)"
+                        }
+                        onClick={() => startDrawing("polygon")}
+                        icon={POLYGON_OCCLUSION_ICON}
+                    />
+                    <LogseqButton
+                        color={drawingTool == "freehand" ? "primary" : "success"}
+                        size={"sm"}
+                        title={"Draw Freehand Occlusion"}
+                        onClick={() => startDrawing("freehand")}
+                        icon={FREEHAND_OCCLUSION_ICON}
+                    />
                     <LogseqButton
                         color={"failed"}
                         size={"sm"}
@@ -641,6 +861,47 @@ const OcclusionEditorComponent: React.FC<{
                         disabled={fabricSelection == null || fabricSelection.length == 0}
                     />
                 </div>
+                {editingMask && (
+                    <div
+                        key={editingMask.key}
+                        className="occlusion-editor-label-toolbar flex"
+                        style={{
+                            borderBottom: "1px solid var(--ls-border-color)",
+                            alignItems: "center",
+                            gap: "0.5rem",
+                            padding: "0.25rem 0.5rem",
+                        }}>
+                        <span className="text-sm opacity-80">
+                            Cloze Id {editingMask.mask._objects[1].text}:
+                        </span>
+                        <input
+                            autoFocus
+                            className="form-input is-small"
+                            placeholder="Label (answer)"
+                            defaultValue={editingMask.mask.occlusionLabel || ""}
+                            onChange={(e) => {
+                                editingMask.mask.occlusionLabel =
+                                    e.target.value.trim() || undefined;
+                            }}
+                            onKeyDown={(e) => e.key === "Enter" && setEditingMask(null)}
+                            style={{height: "1.8rem"}}
+                        />
+                        <input
+                            className="form-input is-small"
+                            placeholder="Hint"
+                            defaultValue={editingMask.mask.occlusionHint || ""}
+                            onChange={(e) => {
+                                editingMask.mask.occlusionHint =
+                                    e.target.value.trim() || undefined;
+                            }}
+                            onKeyDown={(e) => e.key === "Enter" && setEditingMask(null)}
+                            style={{height: "1.8rem"}}
+                        />
+                        <LogseqButton size={"sm"} onClick={() => setEditingMask(null)}>
+                            Done
+                        </LogseqButton>
+                    </div>
+                )}
                 <div style={{maxHeight: "70vh"}}>
                     <div
                         className="cloze-editor-canvas-container flex mt-1"
@@ -698,24 +959,55 @@ export function createOcclusionRectEl(
     angle = 0,
     cId = 1,
 ) {
-    const rect = new window.parent.fabric.Rect({
+    return createOcclusionEl("rect", left, top, width, height, angle, cId);
+}
+
+export function createOcclusionEl(
+    shape: OcclusionShape = "rect",
+    left = 0,
+    top = 0,
+    width = 80,
+    height = 40,
+    angle = 0,
+    cId = 1,
+    points: Array<OcclusionPoint> = null,
+) {
+    const shapeOptions = {
         fill: "#FFEBA2",
         stroke: "#000",
         strokeWidth: 1,
         strokeUniform: true,
         noScaleCache: false,
         opacity: 0.8,
-        width: width,
-        height: height,
         originX: "center",
         originY: "center",
-    });
+    };
+    let shapeEl;
+    if (shape == "ellipse") {
+        shapeEl = new window.parent.fabric.Ellipse({
+            ...shapeOptions,
+            rx: width / 2,
+            ry: height / 2,
+        });
+    } else if ((shape == "polygon" || shape == "freehand") && points && points.length >= 3) {
+        shapeEl = new window.parent.fabric.Polygon(
+            points.map((point) => ({x: point.x * width, y: point.y * height})),
+            shapeOptions,
+        );
+    } else {
+        shape = "rect";
+        shapeEl = new window.parent.fabric.Rect({
+            ...shapeOptions,
+            width: width,
+            height: height,
+        });
+    }
     const text = new window.parent.fabric.Text(`${cId}`, {
         originX: "center",
         originY: "center",
     });
     text.scaleToHeight(height);
-    const group = new window.parent.fabric.Group([rect, text], {
+    const group = new window.parent.fabric.Group([shapeEl, text], {
         left: left,
         top: top,
         width: width,
@@ -724,5 +1016,36 @@ export function createOcclusionRectEl(
         originY: "center",
         angle: angle,
     });
+    group.occlusionShape = shape;
+    if (shape == "polygon" || shape == "freehand") group.occlusionPoints = points;
     return group;
 }
+
+// Creates polygon / freehand occlusion from points drawn on canvas.
+// Returns null if the drawn shape is too small.
+function createOcclusionElFromPoints(
+    shape: "polygon" | "freehand",
+    points: Array<OcclusionPoint>,
+    cId: number,
+) {
+    const minX = _.min(points.map((point) => point.x));
+    const maxX = _.max(points.map((point) => point.x));
+    const minY = _.min(points.map((point) => point.y));
+    const maxY = _.max(points.map((point) => point.y));
+    const width = maxX - minX;
+    const height = maxY - minY;
+    if (points.length < 3 || width < 4 || height < 4) return null;
+    return createOcclusionEl(
+        shape,
+        minX + width / 2,
+        minY + height / 2,
+        width,
+        height,
+        0,
+        cId,
+        points.map((point) => ({
+            x: _.round((point.x - minX) / width, 4),
+            y: _.round((point.y - minY) / height, 4),
+        })),
+    );
+}
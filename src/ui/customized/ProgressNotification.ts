@@ -5,10 +5,20 @@ export class ProgressNotification {
     max: number;
     current: number;
     progressBar: HTMLElement;
+    cancelled = false; // Set when the cancel button is clicked
 
-    constructor(msg: string, max: number, icon: "anki" | "graph" = "graph") {
+    constructor(
+        msg: string,
+        max: number,
+        icon: "anki" | "graph" = "graph",
+        cancellable = false,
+    ) {
         this.max = max;
         this.current = 0;
+        if (cancellable)
+            logseq.provideModel({
+                cancelLogseqAnkiSyncProgress: () => this.cancel(),
+            });
         logseq.provideUI({
             key: `logseq-anki-sync-progress-notification-${logseq.baseInfo.id}`,
             path: "div.notifications",
@@ -22,7 +32,11 @@ export class ProgressNotification {
                 this.current
             }" max="${this.max}" style="width: 62%;" />
             </div>
-            </div><div class="ml-4 flex-shrink-0 flex">
+            </div><div class="ml-4 flex-shrink-0 flex">${
+                cancellable
+                    ? `<button id="logseq-anki-sync-progress-cancel" data-on-click="cancelLogseqAnkiSyncProgress" class="text-sm" style="opacity: 0.8">Cancel</button>`
+                    : ""
+            }
             </div></div></div></div></div></div>
             `,
         });
@@ -53,11 +67,23 @@ export class ProgressNotification {
             }
             this.progressBar.setAttribute("value", `${this.current}`);
         } catch (e) {}
-        if (this.current >= this.max)
-            logseq.provideUI({
-                key: `logseq-anki-sync-progress-notification-${logseq.baseInfo.id}`,
-                template: ``,
-            }); // Remove notification
+        if (this.current >= this.max) this.close();
+    }
+
+    cancel() {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        this.updateMessage("Cancelling... (waiting for the running operations to finish)");
+        try {
+            window.parent.document.getElementById(`logseq-anki-sync-progress-cancel`).remove();
+        } catch (e) {}
+    }
+
+    close() {
+        logseq.provideUI({
+            key: `logseq-anki-sync-progress-notification-${logseq.baseInfo.id}`,
+            template: ``,
+        }); // Remove notification
     }
 
     updateMessage(msg: string) {
@@ -13,15 +13,27 @@ export async function SyncSelectionDialog(
     toCreateNotes: Array<any>,
     toUpdateNotes: Array<any>,
     toDeleteNotes: Array<any>,
+    toPullNotes: Array<any> = [],
+    toResolveConflicts: Array<any> = [],
+    toRelinkNotes: Array<any> = [],
+    uncheckedConflictsCount = 0, // Updated notes that can't be checked for edits in anki
 ): Promise<{
     toCreateNotes: Array<any>;
     toUpdateNotes: Array<any>;
     toDeleteNotes: Array<any>;
+    toPullNotes: Array<any>;
+    toResolveConflicts: Array<any>;
+    toRelinkNotes: Array<any>;
+    dryRun?: boolean;
 } | null> {
     return new Promise<{
         toCreateNotes: Array<any>;
         toUpdateNotes: Array<any>;
         toDeleteNotes: Array<any>;
+        toPullNotes: Array<any>;
+        toResolveConflicts: Array<any>;
+        toRelinkNotes: Array<any>;
+        dryRun?: boolean;
     } | null>(async (resolve, reject) => {
         try {
             let {key, onClose} = await UI.getEventHandlersForMountedReactComponent(await logseq.Editor.newBlockUUID());
@@ -31,6 +43,10 @@ export async function SyncSelectionDialog(
                     toCreateNotes={toCreateNotes}
                     toUpdateNotes={toUpdateNotes}
                     toDeleteNotes={toDeleteNotes}
+                    toPullNotes={toPullNotes}
+                    toResolveConflicts={toResolveConflicts}
+                    toRelinkNotes={toRelinkNotes}
+                    uncheckedConflictsCount={uncheckedConflictsCount}
                     resolve={resolve}
                     reject={reject}
                     onClose={onClose}
@@ -46,16 +62,35 @@ const SyncSelectionDialogComponent: React.FC<{
     toCreateNotes: Array<any>;
     toUpdateNotes: Array<any>;
     toDeleteNotes: Array<any>;
+    toPullNotes: Array<any>;
+    toResolveConflicts: Array<any>;
+    toRelinkNotes: Array<any>;
+    uncheckedConflictsCount: number;
     resolve: (
         value: {
             toCreateNotes: Array<any>;
             toUpdateNotes: Array<any>;
             toDeleteNotes: Array<any>;
+            toPullNotes: Array<any>;
+            toResolveConflicts: Array<any>;
+            toRelinkNotes: Array<any>;
+            dryRun?: boolean;
         } | null,
     ) => void;
     reject: Function;
     onClose: () => void;
-}> = ({toCreateNotes, toUpdateNotes, toDeleteNotes, resolve, reject, onClose}) => {
+}> = ({
+    toCreateNotes,
+    toUpdateNotes,
+    toDeleteNotes,
+    toPullNotes,
+    toResolveConflicts,
+    toRelinkNotes,
+    uncheckedConflictsCount,
+    resolve,
+    reject,
+    onClose,
+}) => {
     const [open, setOpen] = useState(true);
     const [toCreateNotesSelection, setToCreateNotesSelection] = useState(
         new Array(toCreateNotes.length).fill(true),
@@ -66,6 +101,15 @@ const SyncSelectionDialogComponent: React.FC<{
     const [toDeleteNotesSelection, setToDeleteNotesSelection] = useState(
         new Array(toDeleteNotes.length).fill(true),
     );
+    const [toPullNotesSelection, setToPullNotesSelection] = useState(
+        new Array(toPullNotes.length).fill(false),
+    );
+    const [toRelinkNotesSelection, setToRelinkNotesSelection] = useState(
+        new Array(toRelinkNotes.length).fill(true),
+    );
+    const [conflictResolutions, setConflictResolutions] = useState<Array<"logseq" | "anki" | "skip">>(
+        new Array(toResolveConflicts.length).fill("skip"),
+    );
     const [toCreateNotesCheckbox, setToCreateNotesCheckbox] = useState<
         "checked" | "unchecked" | "indeterminate"
     >("checked");
@@ -75,6 +119,12 @@ const SyncSelectionDialogComponent: React.FC<{
     const [toDeleteNotesCheckbox, setToDeleteNotesCheckbox] = useState<
         "checked" | "unchecked" | "indeterminate"
     >("checked");
+    const [toPullNotesCheckbox, setToPullNotesCheckbox] = useState<
+        "checked" | "unchecked" | "indeterminate"
+    >("unchecked");
+    const [toRelinkNotesCheckbox, setToRelinkNotesCheckbox] = useState<
+        "checked" | "unchecked" | "indeterminate"
+    >("checked");
 
     useEffect(() => {
         const isAllCreateNotesSelected = toCreateNotesSelection.every(Boolean);
@@ -112,6 +162,30 @@ const SyncSelectionDialogComponent: React.FC<{
         );
     }, [toDeleteNotesSelection]);
 
+    useEffect(() => {
+        const isAllPullNotesSelected = toPullNotesSelection.every(Boolean);
+        const isNonePullNotesSelected = !toPullNotesSelection.some(Boolean);
+        setToPullNotesCheckbox(
+            isNonePullNotesSelected
+                ? "unchecked"
+                : isAllPullNotesSelected
+                    ? "checked"
+                    : "indeterminate"
+        );
+    }, [toPullNotesSelection]);
+
+    useEffect(() => {
+        const isAllRelinkNotesSelected = toRelinkNotesSelection.every(Boolean);
+        const isNoneRelinkNotesSelected = !toRelinkNotesSelection.some(Boolean);
+        setToRelinkNotesCheckbox(
+            isAllRelinkNotesSelected
+                ? "checked"
+                : isNoneRelinkNotesSelected
+                    ? "unchecked"
+                    : "indeterminate"
+        );
+    }, [toRelinkNotesSelection]);
+
     const handleCreateNotesCheckboxClick = () => {
         const newSelection =
             toCreateNotesCheckbox === "checked"
@@ -136,6 +210,22 @@ const SyncSelectionDialogComponent: React.FC<{
         setToDeleteNotesSelection(newSelection);
     };
 
+    const handlePullNotesCheckboxClick = () => {
+        const newSelection =
+            toPullNotesCheckbox === "checked"
+                ? new Array(toPullNotes.length).fill(false)
+                : new Array(toPullNotes.length).fill(true);
+        setToPullNotesSelection(newSelection);
+    };
+
+    const handleRelinkNotesCheckboxClick = () => {
+        const newSelection =
+            toRelinkNotesCheckbox === "checked"
+                ? new Array(toRelinkNotes.length).fill(false)
+                : new Array(toRelinkNotes.length).fill(true);
+        setToRelinkNotesSelection(newSelection);
+    };
+
     const [selectionMenu, setSelectionMenu] = useState([
         {
             title: "Select All",
@@ -143,6 +233,8 @@ const SyncSelectionDialogComponent: React.FC<{
                 setToCreateNotesSelection(new Array(toCreateNotes.length).fill(true));
                 setToUpdateNotesSelection(new Array(toUpdateNotes.length).fill(true));
                 setToDeleteNotesSelection(new Array(toDeleteNotes.length).fill(true));
+                setToPullNotesSelection(new Array(toPullNotes.length).fill(true));
+                setToRelinkNotesSelection(new Array(toRelinkNotes.length).fill(true));
             },
         },
         {
@@ -151,6 +243,8 @@ const SyncSelectionDialogComponent: React.FC<{
                 setToCreateNotesSelection(new Array(toCreateNotes.length).fill(false));
                 setToUpdateNotesSelection(new Array(toUpdateNotes.length).fill(false));
                 setToDeleteNotesSelection(new Array(toDeleteNotes.length).fill(false));
+                setToPullNotesSelection(new Array(toPullNotes.length).fill(false));
+                setToRelinkNotesSelection(new Array(toRelinkNotes.length).fill(false));
             },
         },
         {
@@ -159,6 +253,8 @@ const SyncSelectionDialogComponent: React.FC<{
                 setToCreateNotesSelection(new Array(toCreateNotes.length).fill(true));
                 setToUpdateNotesSelection(new Array(toUpdateNotes.length).fill(false));
                 setToDeleteNotesSelection(new Array(toDeleteNotes.length).fill(false));
+                setToPullNotesSelection(new Array(toPullNotes.length).fill(false));
+                setToRelinkNotesSelection(new Array(toRelinkNotes.length).fill(false));
             },
         },
     ]);
@@ -190,6 +286,24 @@ const SyncSelectionDialogComponent: React.FC<{
                             setToDeleteNotesSelection(
                                 new Array(toDeleteNotes.length).fill(false),
                             );
+                            setToRelinkNotesSelection(
+                                new Array(toRelinkNotes.length)
+                                    .fill(false)
+                                    .map(
+                                        (_, index) =>
+                                            toRelinkNotes[index].note.page.uuid ===
+                                            currentPage.uuid,
+                                    ),
+                            );
+                            setToPullNotesSelection(
+                                new Array(toPullNotes.length)
+                                    .fill(false)
+                                    .map(
+                                        (_, index) =>
+                                            toPullNotes[index].note.page.uuid ===
+                                            currentPage.uuid,
+                                    ),
+                            );
                         },
                     },
                 ]);
@@ -212,8 +326,9 @@ const SyncSelectionDialogComponent: React.FC<{
         [resolve],
     );
 
-    const handleConfirm = useCallback(() => {
+    const handleConfirm = useCallback((dryRun = false) => {
         returnResult({
+            dryRun,
             toCreateNotes: toCreateNotesSelection
                 .map((selected, index) => (selected ? toCreateNotes[index] : null))
                 .filter(Boolean),
@@ -223,15 +338,31 @@ const SyncSelectionDialogComponent: React.FC<{
             toDeleteNotes: toDeleteNotesSelection
                 .map((selected, index) => (selected ? toDeleteNotes[index] : null))
                 .filter(Boolean),
+            toPullNotes: toPullNotesSelection
+                .map((selected, index) => (selected ? toPullNotes[index] : null))
+                .filter(Boolean),
+            toRelinkNotes: toRelinkNotesSelection
+                .map((selected, index) => (selected ? toRelinkNotes[index] : null))
+                .filter(Boolean),
+            toResolveConflicts: toResolveConflicts.map((conflict, index) => ({
+                ...conflict,
+                resolution: conflictResolutions[index],
+            })),
         });
     }, [
         returnResult,
         toCreateNotes,
         toUpdateNotes,
         toDeleteNotes,
+        toPullNotes,
+        toResolveConflicts,
+        toRelinkNotes,
         toCreateNotesSelection,
         toUpdateNotesSelection,
         toDeleteNotesSelection,
+        toPullNotesSelection,
+        toRelinkNotesSelection,
+        conflictResolutions,
     ]);
 
     const handleCancel = useCallback(() => {
@@ -462,6 +593,139 @@ const SyncSelectionDialogComponent: React.FC<{
                                 <UpdateLineDisplay note={note} graphName={graphName} />
                             </LogseqCheckbox>
                         ))}
+                        {uncheckedConflictsCount > 0 && (
+                            <span className="opacity-50" style={{fontSize: "14px"}}>
+                                {uncheckedConflictsCount} note(s) using anki-model:: are not
+                                checked for edits made in Anki. Updating them overwrites those
+                                edits.
+                            </span>
+                        )}
+                        {toRelinkNotes.length > 0 && (
+                            <>
+                                <div
+                                    className="p-4"
+                                    style={{
+                                        backgroundColor: "var(--ls-tertiary-background-color)",
+                                        borderRadius: "0.25rem",
+                                        cursor: "pointer",
+                                        marginTop: "0.5rem",
+                                        marginBottom: "0.5rem",
+                                        padding: "0.25rem 0.5rem",
+                                        userSelect: "none",
+                                        zIndex: 1,
+                                    }}>
+                                    <span title="Orphaned anki notes that look like the notes of new blocks. Re-linking keeps their review history.">
+                                        Re-link
+                                    </span>
+                                    <span
+                                        className="opacity-50 px-1 flex"
+                                        style={{userSelect: "none", float: "right", fontSize: "14px"}}>
+                                        {" "}
+                                        {toRelinkNotesSelection.filter(Boolean).length} /{" "}
+                                        {toRelinkNotesSelection.length}
+                                        <span style={{width: "15px"}} />
+                                        <LogseqCheckbox
+                                            checked={toRelinkNotesCheckbox === "checked"}
+                                            indeterminate={toRelinkNotesCheckbox === "indeterminate"}
+                                            onChange={handleRelinkNotesCheckboxClick}
+                                        />
+                                    </span>
+                                </div>
+                                {toRelinkNotes.map((relinkNote, index) => (
+                                    <LogseqCheckbox
+                                        checked={toRelinkNotesSelection[index]}
+                                        key={relinkNote.note.uuid + relinkNote.note.type}
+                                        onChange={() => {
+                                            let newToRelinkNotesSelection = [...toRelinkNotesSelection];
+                                            newToRelinkNotesSelection[index] =
+                                                !newToRelinkNotesSelection[index];
+                                            setToRelinkNotesSelection(newToRelinkNotesSelection);
+                                        }}>
+                                        <RelinkLineDisplay relinkNote={relinkNote} graphName={graphName} />
+                                    </LogseqCheckbox>
+                                ))}
+                            </>
+                        )}
+                        {toResolveConflicts.length > 0 && (
+                            <>
+                                <div
+                                    className="p-4"
+                                    style={{
+                                        backgroundColor: "var(--ls-tertiary-background-color)",
+                                        borderRadius: "0.25rem",
+                                        cursor: "pointer",
+                                        marginTop: "0.5rem",
+                                        marginBottom: "0.5rem",
+                                        padding: "0.25rem 0.5rem",
+                                        userSelect: "none",
+                                        zIndex: 1,
+                                    }}>
+                                    Conflicts
+                                    <span
+                                        className="opacity-50 px-1 flex"
+                                        style={{userSelect: "none", float: "right", fontSize: "14px"}}>
+                                        Edited in Anki since the last sync
+                                    </span>
+                                </div>
+                                {toResolveConflicts.map((conflict, index) => (
+                                    <ConflictLineDisplay
+                                        key={conflict.note.uuid + conflict.note.type}
+                                        conflict={conflict}
+                                        graphName={graphName}
+                                        resolution={conflictResolutions[index]}
+                                        onResolutionChange={(resolution) => {
+                                            let newConflictResolutions = [...conflictResolutions];
+                                            newConflictResolutions[index] = resolution;
+                                            setConflictResolutions(newConflictResolutions);
+                                        }}
+                                    />
+                                ))}
+                            </>
+                        )}
+                        {toPullNotes.length > 0 && (
+                            <>
+                                <div
+                                    className="p-4"
+                                    style={{
+                                        backgroundColor: "var(--ls-tertiary-background-color)",
+                                        borderRadius: "0.25rem",
+                                        cursor: "pointer",
+                                        marginTop: "0.5rem",
+                                        marginBottom: "0.5rem",
+                                        padding: "0.25rem 0.5rem",
+                                        userSelect: "none",
+                                        zIndex: 1,
+                                    }}>
+                                    Pull from Anki
+                                    <span
+                                        className="opacity-50 px-1 flex"
+                                        style={{userSelect: "none", float: "right", fontSize: "14px"}}>
+                                        {" "}
+                                        {toPullNotesSelection.filter(Boolean).length} /{" "}
+                                        {toPullNotesSelection.length}
+                                        <span style={{width: "15px"}} />
+                                        <LogseqCheckbox
+                                            checked={toPullNotesCheckbox === "checked"}
+                                            indeterminate={toPullNotesCheckbox === "indeterminate"}
+                                            onChange={handlePullNotesCheckboxClick}
+                                        />
+                                    </span>
+                                </div>
+                                {toPullNotes.map((pullNote, index) => (
+                                    <LogseqCheckbox
+                                        checked={toPullNotesSelection[index]}
+                                        key={pullNote.note.uuid + pullNote.note.type}
+                                        onChange={() => {
+                                            let newToPullNotesSelection = [...toPullNotesSelection];
+                                            newToPullNotesSelection[index] =
+                                                !newToPullNotesSelection[index];
+                                            setToPullNotesSelection(newToPullNotesSelection);
+                                        }}>
+                                        <PullLineDisplay pullNote={pullNote} graphName={graphName} />
+                                    </LogseqCheckbox>
+                                ))}
+                            </>
+                        )}
                     </div>
                 </div>
                 <div
@@ -513,6 +777,16 @@ const SyncSelectionDialogComponent: React.FC<{
                                 </span>
                             </LogseqButton>
                         </span>
+                        <span className="flex w-full rounded-md shadow-sm sm:ml-3 sm:w-auto">
+                            <LogseqButton
+                                isFullWidth={true}
+                                depth={1}
+                                onClick={() => handleConfirm(true)}>
+                                <span title="Download the sync plan as JSON without making any changes to Anki or Logseq.">
+                                    Dry run
+                                </span>
+                            </LogseqButton>
+                        </span>
                         <span className="flex w-full rounded-md shadow-sm sm:ml-3 sm:w-auto">
                             <LogseqButton
                                 isFullWidth={true}
@@ -648,3 +922,112 @@ export const DeleteLineDisplay = ({ankiId}) => {
         </span>
     );
 };
+
+export const PullLineDisplay = ({pullNote, graphName}) => {
+    return (
+        <span className="inline-flex items-center" style={{fontSize: "14px"}}>
+            <span className="opacity-50 px-1" style={{userSelect: "none", flexShrink: "0"}}>
+                [{pullNote.note.type}]
+            </span>
+            <span className={`truncate`}>
+                <LogseqLink uuid={pullNote.note.uuid} graphName={graphName} />
+            </span>
+            <span className="px-1" style={{userSelect: "none"}}>{`⟵`}</span>
+            <span style={{flexShrink: "0"}}>
+                <AnkiLink ankiId={pullNote.ankiId} />
+            </span>
+            <span
+                className="opacity-50 px-1 truncate"
+                title={pullNote.content}
+                style={{maxWidth: "240px"}}>
+                {pullNote.content}
+            </span>
+        </span>
+    );
+};
+
+export const RelinkLineDisplay = ({relinkNote, graphName}) => {
+    return (
+        <span className="inline-flex items-center" style={{fontSize: "14px"}}>
+            <span className="opacity-50 px-1" style={{userSelect: "none", flexShrink: "0"}}>
+                [{relinkNote.note.type}]
+            </span>
+            <span className={`truncate`}>
+                <LogseqLink uuid={relinkNote.note.uuid} graphName={graphName} />
+            </span>
+            <span className="px-1" style={{userSelect: "none"}}>{`⟶`}</span>
+            <span style={{flexShrink: "0"}}>
+                <AnkiLink ankiId={relinkNote.ankiId} />
+            </span>
+            <span className="opacity-50 px-1" style={{userSelect: "none", flexShrink: "0"}}>
+                {Math.round(relinkNote.similarity * 100)}% similar
+            </span>
+        </span>
+    );
+};
+
+export const ConflictLineDisplay = ({conflict, graphName, resolution, onResolutionChange}) => {
+    const changedFields = Object.keys({...conflict.logseqFields, ...conflict.ankiFields}).filter(
+        (field) => conflict.logseqFields[field] != conflict.ankiFields[field],
+    );
+    return (
+        <div style={{fontSize: "14px", marginBottom: "0.25rem"}}>
+            <span className="inline-flex items-center" style={{width: "100%"}}>
+                <span className="opacity-50 px-1" style={{userSelect: "none", flexShrink: "0"}}>
+                    [{conflict.note.type}]
+                </span>
+                <span className={`truncate`}>
+                    <LogseqLink uuid={conflict.note.uuid} graphName={graphName} />
+                </span>
+                <span className="px-1" style={{userSelect: "none"}}>{`⟷`}</span>
+                <span style={{flexShrink: "0"}}>
+                    <AnkiLink ankiId={conflict.ankiId} />
+                </span>
+                <select
+                    className="form-select"
+                    style={{marginLeft: "auto", width: "auto", padding: "0 2rem 0 0.5rem"}}
+                    value={resolution}
+                    onChange={(e) => onResolutionChange(e.target.value)}>
+                    <option value="skip">Skip</option>
+                    <option value="logseq">Keep Logseq</option>
+                    <option value="anki">Keep Anki</option>
+                </select>
+            </span>
+            <details style={{marginLeft: "0.5rem"}}>
+                <summary className="opacity-50" style={{cursor: "pointer", userSelect: "none"}}>
+                    Show diff
+                </summary>
+                <div
+                    style={{
+                        display: "grid",
+                        gridTemplateColumns: "auto 1fr 1fr",
+                        gap: "0.25rem 0.5rem",
+                    }}>
+                    <span />
+                    <strong>Logseq</strong>
+                    <strong>Anki</strong>
+                    {changedFields.map((field) => (
+                        <React.Fragment key={field}>
+                            <span className="opacity-50">{field}</span>
+                            {[conflict.logseqFields[field], conflict.ankiFields[field]].map(
+                                (value, index) => (
+                                    <pre
+                                        key={index}
+                                        style={{
+                                            whiteSpace: "pre-wrap",
+                                            wordBreak: "break-word",
+                                            maxHeight: "200px",
+                                            overflowY: "auto",
+                                            margin: 0,
+                                        }}>
+                                        {value ?? ""}
+                                    </pre>
+                                ),
+                            )}
+                        </React.Fragment>
+                    ))}
+                </div>
+            </details>
+        </div>
+    );
+};
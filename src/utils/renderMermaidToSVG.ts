@@ -0,0 +1,38 @@
+import hashSum from "hash-sum";
+
+let mermaidRuntime: Promise<string> = null;
+let mermaidLoaded: Promise<any> = null;
+
+/**
+ * Returns the source of the bundled mermaid runtime. It is used as anki template media file.
+ * The runtime is only loaded into the plugin when needed.
+ */
+export function getMermaidRuntime(): Promise<string> {
+    if (mermaidRuntime == null) {
+        mermaidRuntime = import("mermaid/dist/mermaid.min.js?raw").then(
+            (runtime) => runtime.default,
+        );
+        mermaidRuntime.catch(() => (mermaidRuntime = null)); // Retry on next call
+    }
+    return mermaidRuntime;
+}
+
+async function loadMermaid(): Promise<any> {
+    if (mermaidLoaded == null) {
+        mermaidLoaded = import("mermaid").then(({default: mermaid}) => {
+            mermaid.initialize({startOnLoad: false, securityLevel: "strict"});
+            return mermaid;
+        });
+        mermaidLoaded.catch(() => (mermaidLoaded = null));
+    }
+    return mermaidLoaded;
+}
+
+/**
+ * Renders the mermaid diagram code to svg inside the plugin iframe.
+ */
+export async function renderMermaidToSVG(code: string): Promise<string> {
+    const mermaid = await loadMermaid();
+    const {svg} = await mermaid.render(`mermaid-${hashSum(code)}`, code);
+    return svg;
+}
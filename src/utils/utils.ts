@@ -128,7 +128,7 @@ export function handleAnkiError(msg: string): void {
                             ),
                     },
                 ],
-                "Please ensure Anki is open in background with AnkiConnect installed properly. Read installation guide for details.",
+                "Please ensure Anki is open in background with AnkiConnect installed properly and the AnkiConnect URL in plugin settings is correct. Read installation guide for details.",
                 5000,
                 WARNING_ICON,
             );
@@ -147,6 +147,16 @@ export function handleAnkiError(msg: string): void {
                 timeout: 5000,
             });
             break;
+        case "AnkiConnect requires an api key":
+        case "valid api key must be provided":
+            logseq.UI.showMsg(
+                "Please set the AnkiConnect API key in plugin settings.",
+                "warning",
+                {
+                    timeout: 5000,
+                },
+            );
+            break;
     }
 }
 export function splitNamespace(str: string) {
@@ -279,6 +289,25 @@ export async function sortAsync<T>(arr: T[], score: (a: T) => Promise<number>):
     });
 }
 
+/**
+ * Runs fn on the items using a pool of limit workers.
+ * No new items are started once shouldStop returns true.
+ * Returns the items that were not started.
+ */
+export async function forEachAsyncPool<T>(
+    arr: T[],
+    limit: number,
+    fn: (item: T) => Promise<void>,
+    shouldStop: () => boolean = () => false,
+): Promise<T[]> {
+    let next = 0;
+    const worker = async () => {
+        while (next < arr.length && !shouldStop()) await fn(arr[next++]);
+    };
+    await Promise.all(_.times(Math.max(1, Math.min(limit || 1, arr.length)), worker));
+    return arr.slice(next);
+}
+
 export function getCaseInsensitive(obj, path, defaultValue) {
     if (!obj) {
         return defaultValue;
@@ -294,3 +323,39 @@ export function getCaseInsensitive(obj, path, defaultValue) {
     }
     return target;
 }
+
+export function downloadFile(fileName: string, content: string, mimeType = "application/json") {
+    // Create the file in the parent window as downloads may not be allowed from the plugin iframe
+    const parentWindow = window.parent as Window & typeof globalThis;
+    const url = parentWindow.URL.createObjectURL(
+        new parentWindow.Blob([content], {type: mimeType}),
+    );
+    const link = parentWindow.document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    parentWindow.document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => parentWindow.URL.revokeObjectURL(url), 10000);
+}
+
+// Similarity of two strings from 0 to 1 (Sørensen–Dice coefficient of their character bigrams)
+export function getTextSimilarity(a: string, b: string): number {
+    if (a == b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const bigramCounts = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigramCounts.set(bigram, (bigramCounts.get(bigram) || 0) + 1);
+    }
+    let commonBigrams = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const count = bigramCounts.get(bigram) || 0;
+        if (count > 0) {
+            bigramCounts.set(bigram, count - 1);
+            commonBigrams++;
+        }
+    }
+    return (2 * commonBigrams) / (a.length + b.length - 2);
+}
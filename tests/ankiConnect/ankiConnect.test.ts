@@ -0,0 +1,169 @@
+import {afterAll, beforeAll, beforeEach, describe, expect, test, vi} from "vitest";
+import http from "http";
+import {AddressInfo} from "net";
+import {getTransportOptions, invoke, invokeMulti} from "../../src/anki-connect/AnkiConnect";
+
+// Fake AnkiConnect server. The handler can be changed by each test.
+let handler: (body: any, req: http.IncomingMessage, res: http.ServerResponse) => void;
+let requests: Array<any> = [];
+let server: http.Server;
+let url: string;
+
+const reply = (res: http.ServerResponse, result: any, error: string = null) => {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({result, error}));
+};
+
+// Fake multi action: each action returns its params.value or an error if params.fail is set
+const multiHandler = (body, req, res) => {
+    reply(
+        res,
+        body.params.actions.map((action) =>
+            action.params.fail ? {result: null, error: "action failed"} : action.params.value,
+        ),
+    );
+};
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let data = "";
+        req.on("data", (chunk) => (data += chunk));
+        req.on("end", () => {
+            const body = JSON.parse(data);
+            requests.push(body);
+            handler(body, req, res);
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests = [];
+    handler = multiHandler;
+});
+
+describe("invoke", () => {
+    test("sends the action with version 6 and returns the result", async () => {
+        handler = (body, req, res) => reply(res, ["Default"]);
+        const result = await invoke("deckNames", {}, {url});
+        expect(result).toEqual(["Default"]);
+        expect(requests).toEqual([{action: "deckNames", version: 6, params: {}}]);
+    });
+    test("sends the api key when configured", async () => {
+        handler = (body, req, res) => reply(res, 6);
+        await invoke("version", {}, {url, apiKey: "secret"});
+        expect(requests).toEqual([{action: "version", version: 6, key: "secret", params: {}}]);
+    });
+    test("throws the error returned by anki without retrying", async () => {
+        handler = (body, req, res) => reply(res, null, "collection is not available");
+        await expect(invoke("deckNames", {}, {url, retryDelay: 1})).rejects.toEqual(
+            "collection is not available",
+        );
+        expect(requests.length).toEqual(1);
+    });
+    test("retries on connection errors", async () => {
+        handler = (body, req, res) => {
+            if (requests.length <= 2) req.socket.destroy();
+            else reply(res, 6);
+        };
+        const result = await invoke("version", {}, {url, retries: 3, retryDelay: 1});
+        expect(result).toEqual(6);
+        expect(requests.length).toEqual(3);
+    });
+    test("gives up after the configured retries", async () => {
+        handler = (body, req, res) => req.socket.destroy();
+        await expect(invoke("version", {}, {url, retries: 2, retryDelay: 1})).rejects.toEqual(
+            "failed to issue request",
+        );
+        expect(requests.length).toEqual(3);
+    });
+    test("does not retry non idempotent actions", async () => {
+        handler = (body, req, res) => req.socket.destroy();
+        await expect(
+            invoke("addNote", {note: {}}, {url, retries: 2, retryDelay: 1}),
+        ).rejects.toEqual("failed to issue request");
+        await expect(
+            invoke(
+                "multi",
+                {actions: [{action: "updateNoteFields"}, {action: "addNote"}]},
+                {url, retries: 2, retryDelay: 1},
+            ),
+        ).rejects.toEqual("failed to issue request");
+        expect(requests.length).toEqual(2);
+    });
+    test("retries multi requests of idempotent actions", async () => {
+        handler = (body, req, res) => {
+            if (requests.length == 1) req.socket.destroy();
+            else reply(res, [null, null]);
+        };
+        const actions = [{action: "updateNoteFields"}, {action: "deleteNotes"}];
+        await invoke("multi", {actions}, {url, retries: 2, retryDelay: 1});
+        expect(requests.length).toEqual(2);
+    });
+    test("times out", async () => {
+        handler = () => {}; // Never responds
+        await expect(invoke("version", {}, {url, timeout: 50, retries: 0})).rejects.toEqual(
+            "request timed out",
+        );
+    });
+});
+
+describe("invokeMulti", () => {
+    test("splits the actions into chunks and keeps the results in order", async () => {
+        const actions = [1, 2, 3, 4, 5].map((value) => ({action: "echo", params: {value}}));
+        const result = await invokeMulti(actions, {url, chunkSize: 2});
+        expect(result).toEqual([1, 2, 3, 4, 5]);
+        expect(requests.map((request) => request.params.actions.length)).toEqual([2, 2, 1]);
+    });
+    test("does not send a request when there are no actions", async () => {
+        expect(await invokeMulti([], {url})).toEqual([]);
+        expect(requests.length).toEqual(0);
+    });
+    test("keeps the errors of sub actions at their positions", async () => {
+        const actions = [
+            {action: "echo", params: {value: 1}},
+            {action: "echo", params: {fail: true}},
+            {action: "echo", params: {value: 3}},
+        ];
+        const result = await invokeMulti(actions, {url, chunkSize: 2});
+        expect(result).toEqual([1, {result: null, error: "action failed"}, 3]);
+    });
+    test("marks the actions of a failed chunk as errors and keeps the other results", async () => {
+        handler = (body, req, res) => {
+            if (requests.length == 2) reply(res, null, "chunk failed");
+            else multiHandler(body, req, res);
+        };
+        const actions = [1, 2, 3, 4, 5].map((value) => ({action: "echo", params: {value}}));
+        const result = await invokeMulti(actions, {url, chunkSize: 2, retryDelay: 1});
+        expect(result).toEqual([1, 2, {error: "chunk failed"}, {error: "chunk failed"}, 5]);
+    });
+    test("throws when every chunk failed", async () => {
+        handler = (body, req, res) => req.socket.destroy();
+        const actions = [1, 2, 3].map((value) => ({action: "echo", params: {value}}));
+        await expect(invokeMulti(actions, {url, chunkSize: 2, retries: 0})).rejects.toEqual(
+            "failed to issue request",
+        );
+    });
+});
+
+describe("getTransportOptions", () => {
+    test("uses the defaults when settings are not available", async () => {
+        expect(getTransportOptions()).toMatchObject({url: "http://127.0.0.1:8765", apiKey: ""});
+    });
+    test("reads the url and api key from settings", async () => {
+        vi.stubGlobal("logseq", {
+            settings: {ankiConnectURL: " 192.168.1.5:8765/ ", ankiConnectAPIKey: "secret"},
+        });
+        expect(getTransportOptions()).toMatchObject({
+            url: "http://192.168.1.5:8765",
+            apiKey: "secret",
+        });
+        vi.unstubAllGlobals();
+    });
+});
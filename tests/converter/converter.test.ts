@@ -396,6 +396,15 @@ vi.mock('../../src/logseq/LogseqProxy', () => ({
                         return [];
                 }
             }),
+        },
+        DB: {
+            // Every query finds the block containing the query itself
+            datascriptQuery: vi.fn().mockImplementation(async (query: string) => [[{
+                "uuid": "65a22d3c-954d-442b-8dca-4461fc209f85",
+                "content": `Self query\n#+BEGIN_QUERY\n{:title "Self" :query ${query}}\n#+END_QUERY`,
+                "format": "markdown",
+                "page": {"id": 57}
+            }]]),
         }
     }
 }));
@@ -713,6 +722,14 @@ describe("Markdown Input", () => {
           expect($('.embed-page > .children-list').length).toBe(1);
        });
     });
+    describe("Query Rendering", () => {
+        test("Query whose results contain the query", async () => {
+            const htmlFile = await convertToHTMLFile("#+BEGIN_QUERY\n{:title \"Self\" :query [:find (pull ?b [*]) :where [?b :block/content]]}\n#+END_QUERY", "markdown");
+            const $ = cheerio.load(htmlFile.html);
+            expect($('.query-results-container').length).toBe(1);
+            expect($('.query-results > li').text()).toContain('Self query');
+        });
+    });
     describe("PDF Rendering", () => {
        test("Basic PDF rendering", async () => {
               const htmlFile = await convertToHTMLFile("![Linux Slides 1.pdf](../assets/Linux_Slides_1_1673180335043_0.pdf)", "markdown");
@@ -0,0 +1,159 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {
+    ConverterExtensionRegistry,
+    getConverterExtensionDependencies,
+    getConverterExtensionNodes,
+} from "../../src/logseq/ConverterExtensionRegistry";
+
+const getCurrentGraphConfigs = vi.fn();
+vi.stubGlobal("logseq", {settings: {debug: []}, App: {getCurrentGraphConfigs}});
+vi.stubGlobal("window", {addEventListener: vi.fn()});
+
+vi.mock("../../src/logseq/LogseqToHtmlConverter", () => ({
+    convertToHTMLFile: vi.fn(async (content) => ({
+        html: `<b>${content}</b>`,
+        assets: new Set(["asset.png"]),
+        tags: new Set(),
+    })),
+}));
+vi.mock("../../src/logseq/getLogseqContentDirectDependencies", () => ({
+    default: vi.fn(async () => [{type: "Page", value: "macro page"}]),
+}));
+
+const context = {format: "markdown", content: ""};
+
+beforeEach(() => {
+    ConverterExtensionRegistry.extensionsList = [];
+});
+
+describe("ConverterExtensionRegistry", () => {
+    test("add replaces the extension with the same node type and name", () => {
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "foo", transform: () => null});
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "FOO", transform: () => null});
+        ConverterExtensionRegistry.add({nodeType: "Link", name: "foo", transform: () => null});
+        expect(ConverterExtensionRegistry.extensionsList.map((e) => e.name)).toEqual([
+            "FOO",
+            "foo",
+        ]);
+        ConverterExtensionRegistry.remove("Macro", "foo");
+        expect(ConverterExtensionRegistry.extensionsList.map((e) => e.nodeType)).toEqual([
+            "Link",
+        ]);
+    });
+    test("get returns the matching extensions before the * ones", () => {
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "*", transform: () => null});
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "bar", transform: () => null});
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "foo", transform: () => null});
+        expect(ConverterExtensionRegistry.get("Macro", ["foo"]).map((e) => e.name)).toEqual([
+            "foo",
+            "*",
+        ]);
+    });
+    test("transform returns the result of the first extension that handles the node", async () => {
+        ConverterExtensionRegistry.add({
+            nodeType: "Macro",
+            name: "*",
+            transform: () => ({html: "wildcard"}),
+        });
+        ConverterExtensionRegistry.add({
+            nodeType: "Macro",
+            name: "foo",
+            transform: () => {
+                throw new Error("failed");
+            },
+        });
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "bar", transform: () => null});
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        expect(
+            await ConverterExtensionRegistry.transform("Macro", {name: "foo"}, context),
+        ).toEqual({html: "wildcard"});
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+        expect(
+            await ConverterExtensionRegistry.transform("Macro", {name: "bar"}, context),
+        ).toEqual({html: "wildcard"});
+        expect(await ConverterExtensionRegistry.transform("Link", {name: "bar"}, context)).toBe(
+            null,
+        );
+    });
+    test("transform matches renderer macros by their id", async () => {
+        ConverterExtensionRegistry.add({
+            nodeType: "Macro",
+            name: "renderer :my-plugin",
+            transform: (node) => ({html: node.arguments[1]}),
+        });
+        expect(
+            await ConverterExtensionRegistry.transform(
+                "Macro",
+                {name: "renderer", arguments: [":my-plugin", "content"]},
+                context,
+            ),
+        ).toEqual({html: "content"});
+    });
+});
+
+describe("getConverterExtensionNodes", () => {
+    test("returns nothing when no extension is registered", () => {
+        expect(getConverterExtensionNodes("{{foo bar}}")).toEqual([]);
+    });
+    test("finds the macros and custom blocks in order", () => {
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "*", transform: () => null});
+        ConverterExtensionRegistry.add({nodeType: "Custom", name: "*", transform: () => null});
+        const content = "{{foo bar}}\n#+BEGIN_NOTE\n{{inside}}\n#+END_NOTE\n";
+        const nodes = getConverterExtensionNodes(content);
+        expect(nodes.map(([nodeType, node]) => [nodeType, node.name])).toEqual([
+            ["Macro", "foo"],
+            ["Custom", "note"],
+        ]);
+        expect(nodes[0][1].arguments).toEqual(["bar"]);
+        const [, , start_pos, end_pos] = nodes[0];
+        expect(content.substring(start_pos, end_pos)).toEqual("{{foo bar}}");
+    });
+    test("does not parse the content when it cannot contain the registered node types", () => {
+        ConverterExtensionRegistry.add({nodeType: "Macro", name: "*", transform: () => null});
+        ConverterExtensionRegistry.add({nodeType: "Custom", name: "*", transform: () => null});
+        expect(getConverterExtensionNodes("[[page]] text")).toEqual([]);
+    });
+});
+
+describe("config.edn macros", () => {
+    beforeEach(() => {
+        ConverterExtensionRegistry.extensionsList = [];
+        ConverterExtensionRegistry.init();
+        // Clears the cached config macros
+        for (const [event, listener] of vi.mocked(window.addEventListener).mock.calls)
+            if (event == "syncLogseqToAnkiComplete") (listener as () => void)();
+    });
+    test("expands the macro with its arguments", async () => {
+        getCurrentGraphConfigs.mockResolvedValue({macros: {":Greet": "Hello $1 and $2"}});
+        expect(await getConverterExtensionDependencies("{{greet Alice, Bob}}")).toEqual([
+            {type: "Page", value: "macro page"},
+        ]);
+        const [[nodeType, node]] = getConverterExtensionNodes("{{greet Alice, Bob}}");
+        expect(await ConverterExtensionRegistry.transform(nodeType, node, context)).toEqual({
+            html: "<b>Hello Alice and Bob</b>",
+            assets: ["asset.png"],
+            dependencies: [{type: "Page", value: "macro page"}],
+        });
+    });
+    test("ignores macros that are not in config.edn", async () => {
+        getCurrentGraphConfigs.mockResolvedValue({macros: {}});
+        expect(
+            await ConverterExtensionRegistry.transform("Macro", {name: "greet"}, context),
+        ).toBe(null);
+    });
+    test("does not fail when the configs cannot be read", async () => {
+        getCurrentGraphConfigs.mockImplementation(() => {
+            throw new TypeError("getCurrentGraphConfigs is not a function");
+        });
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        expect(
+            await ConverterExtensionRegistry.transform("Macro", {name: "greet"}, context),
+        ).toBe(null);
+        expect(warn).toHaveBeenCalledWith(
+            "Failed to load config.edn macros",
+            expect.anything(),
+        );
+        warn.mockRestore();
+    });
+});
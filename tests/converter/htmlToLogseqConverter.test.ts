@@ -0,0 +1,59 @@
+import {describe, expect, test} from "vitest";
+import {convertHTMLToLogseq, getNoteOwnHTML} from "../../src/logseq/HtmlToLogseqConverter";
+
+describe("convertHTMLToLogseq", () => {
+    test("converts inline formatting", () => {
+        expect(
+            convertHTMLToLogseq(
+                "<b>bold</b> <i>italic</i> <del>strike</del> <mark>marked</mark>",
+            ),
+        ).toEqual("**bold** *italic* ~~strike~~ ==marked==");
+    });
+    test("converts anki clozes to logseq cloze macros", () => {
+        expect(convertHTMLToLogseq("The {{c1::sun}} is a {{c2::star::type}}")).toEqual(
+            "The {{c1 sun}} is a {{c2 star \\\\ type}}",
+        );
+    });
+    test("converts math delimiters", () => {
+        expect(convertHTMLToLogseq("Inline \\(x^2\\) and block \\[y = 1\\]")).toEqual(
+            "Inline $x^2$ and block $$y = 1$$",
+        );
+    });
+    test("converts page refs, tags and links", () => {
+        expect(
+            convertHTMLToLogseq(
+                '<a href="logseq://graph/test?page=My%20Page">My Page</a> ' +
+                    '<a class="tag" data-ref="my tag">#my tag</a> ' +
+                    '<a href="https://example.com">site</a>',
+            ),
+        ).toEqual("[[My Page]] #[[my tag]] [site](https://example.com)");
+    });
+    test("converts line breaks, lists and images", () => {
+        expect(
+            convertHTMLToLogseq(
+                'Line 1<br>Line 2<ul><li>a</li><li>b</li></ul><img src="x.png">',
+            ),
+        ).toEqual("Line 1\nLine 2\n- a\n- b\n![](../assets/x.png)");
+    });
+    test("removes hidden elements and invisible separators", () => {
+        expect(
+            convertHTMLToLogseq('Visible<span class="hidden">Hidden</span> }\u2063} text'),
+        ).toEqual("Visible }} text");
+    });
+});
+
+describe("getNoteOwnHTML", () => {
+    test("returns the html unchanged when there are no parent blocks", () => {
+        expect(getNoteOwnHTML("The {{c1::sun}}")).toEqual("The {{c1::sun}}");
+    });
+    test("leaves out the parent blocks", () => {
+        const html = `<ul class="children-list"><li class="children ">
+                Parent <b>text</b>
+            <ul class="children-list"><li class="children note-content ">
+                The {{c1::sun}}<ul class="children-list"><li>Child</li></ul></li></ul></li></ul>`;
+        expect(getNoteOwnHTML(html)).toEqual(
+            'The {{c1::sun}}<ul class="children-list"><li>Child</li></ul>',
+        );
+        expect(convertHTMLToLogseq(getNoteOwnHTML(html))).toEqual("The {{c1 sun}}\n- Child");
+    });
+});
@@ -0,0 +1,99 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import * as persistentCache from "../../src/logseq/persistentCache";
+import {ConverterExtensionRegistry} from "../../src/logseq/ConverterExtensionRegistry";
+import {convertToHTMLFile} from "../../src/logseq/LogseqToHtmlConverter";
+
+vi.stubGlobal("logseq", {
+    settings: {debug: []},
+    App: {getCurrentGraph: vi.fn(async () => ({name: "TestGraph"}))},
+});
+
+const REF_BLOCK_UUID = "65a22d3c-954d-442b-8dca-4461fc209f84";
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        Editor: {
+            getBlock: vi.fn(async (uuid: string) =>
+                uuid == REF_BLOCK_UUID
+                    ? {uuid, content: "Referenced block", format: "markdown", properties: {}}
+                    : null,
+            ),
+            getPage: vi.fn(async () => null),
+        },
+        DB: {datascriptQuery: vi.fn(async () => [])},
+    },
+}));
+
+// In memory persistent cache
+const entries = new Map<string, any>();
+vi.mock("../../src/logseq/persistentCache", () => ({
+    get: vi.fn(async (key) => entries.get(key) || null),
+    set: vi.fn((key, value) => entries.set(key, value)),
+}));
+
+beforeEach(() => {
+    entries.clear();
+    vi.mocked(persistentCache.set).mockClear();
+    ConverterExtensionRegistry.extensionsList = [];
+});
+
+describe("Persistent HTML cache", () => {
+    test("persists the html of plain content and uses it on the next conversion", async () => {
+        const htmlFile = await convertToHTMLFile("Hello **World**", "markdown");
+        expect(persistentCache.set).toHaveBeenCalledTimes(1);
+        const [[key, value]] = vi.mocked(persistentCache.set).mock.calls;
+        expect(key).toMatch(/^HTML:/);
+        expect(value).toMatchObject({content: "Hello **World**", html: htmlFile.html});
+
+        entries.set(key, {...value, html: "persisted"});
+        expect((await convertToHTMLFile("Hello **World**", "markdown")).html).toEqual(
+            "persisted",
+        );
+    });
+    test("ignores a persisted entry of another content", async () => {
+        await convertToHTMLFile("Hello **World**", "markdown");
+        const [[key, value]] = vi.mocked(persistentCache.set).mock.calls;
+        entries.set(key, {...value, content: "Other", html: "persisted"});
+        expect((await convertToHTMLFile("Hello **World**", "markdown")).html).not.toEqual(
+            "persisted",
+        );
+    });
+    test("does not persist content with block refs, macros or queries", async () => {
+        const blockRefHTMLFile = await convertToHTMLFile(
+            `Block Ref: ((${REF_BLOCK_UUID}))`,
+            "markdown",
+        );
+        expect(blockRefHTMLFile.html).toContain(`?block-id=${REF_BLOCK_UUID}`);
+        expect(blockRefHTMLFile.html).toMatch(
+            /Block Ref: <span onclick="[^"]*" class="block-ref">\s*<span>Referenced block<\/span>/,
+        );
+        // Only the content of the referenced block is persisted
+        expect(
+            vi.mocked(persistentCache.set).mock.calls.map(([, value]) => value.content),
+        ).toEqual(["Referenced block"]);
+        vi.mocked(persistentCache.set).mockClear();
+        expect((await convertToHTMLFile("{{cloze Hello}}", "markdown")).html).toContain(
+            "Hello",
+        );
+        expect(
+            (
+                await convertToHTMLFile(
+                    "#+BEGIN_QUERY\n{:query [:find ?b]}\n#+END_QUERY",
+                    "markdown",
+                )
+            ).html,
+        ).toContain("No matched results");
+        expect(persistentCache.set).not.toHaveBeenCalled();
+    });
+    test("does not persist content transformed by converter extensions", async () => {
+        let linkHTML = "first";
+        ConverterExtensionRegistry.add({
+            nodeType: "Link",
+            name: "*",
+            transform: () => ({html: linkHTML}),
+        });
+        expect((await convertToHTMLFile("See [[Page]]", "markdown")).html).toContain("first");
+        expect(persistentCache.set).not.toHaveBeenCalled();
+        linkHTML = "second";
+        expect((await convertToHTMLFile("See [[Page]]", "markdown")).html).toContain("second");
+    });
+});
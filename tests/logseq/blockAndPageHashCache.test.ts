@@ -0,0 +1,76 @@
+import {beforeAll, describe, expect, test, vi} from "vitest";
+import getLogseqContentDirectDependencies from "../../src/logseq/getLogseqContentDirectDependencies";
+import * as blockAndPageHashCache from "../../src/logseq/blockAndPageHashCache";
+
+const blocks = {
+    query: {id: 1, uuid: "query", content: "{{query (task TODO)}}", page: {id: 100}},
+    plain: {id: 2, uuid: "plain", content: "Plain block", page: {id: 100}},
+    other: {id: 3, uuid: "other", content: "Other block", page: {id: 100}},
+};
+let queryResults = [];
+let dbChangeListener: (event) => Promise<void>;
+
+vi.stubGlobal("logseq", {
+    settings: {cacheLogseqAPIv1: true, debug: []},
+    Editor: {getBlock: vi.fn(async () => null)},
+});
+vi.stubGlobal("window", {addEventListener: vi.fn()});
+
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        Editor: {
+            getBlock: vi.fn(async (uuid: string) => blocks[uuid]),
+            getPage: vi.fn(async () => ({updatedAt: 1})),
+        },
+        DB: {registerDBChangeListener: vi.fn((listener) => (dbChangeListener = listener))},
+        Settings: {registerSettingsChangeListener: vi.fn()},
+        App: {registerGraphChangeListener: vi.fn(), registerGraphIndexedListener: vi.fn()},
+    },
+}));
+vi.mock("../../src/logseq/persistentCache", () => ({
+    get: vi.fn(async () => null),
+    set: vi.fn(),
+}));
+vi.mock("../../src/logseq/getLogseqContentDirectDependencies", () => ({
+    default: vi.fn(async (content: string) =>
+        content.includes("{{query") ? queryResults : [],
+    ),
+}));
+
+const invalidationListener = vi.fn();
+beforeAll(() => {
+    blockAndPageHashCache.init();
+    blockAndPageHashCache.registerHashInvalidationListener(invalidationListener);
+});
+
+const changeBlock = (block) => dbChangeListener({blocks: [{...block}], txData: [], txMeta: {}});
+const getDependencyCalls = (content: string) =>
+    vi.mocked(getLogseqContentDirectDependencies).mock.calls.filter(([c]) => c == content)
+        .length;
+
+describe("Blocks containing queries", () => {
+    test("are rebuilt when the query gains results", async () => {
+        const hash = await blockAndPageHashCache.getBlockHash("query");
+        blocks["new"] = {id: 4, uuid: "new", content: "TODO New task", page: {id: 100}};
+        queryResults = [{type: "Block", value: "new"}];
+        invalidationListener.mockClear();
+        await changeBlock(blocks["new"]);
+        expect(invalidationListener).toHaveBeenCalledWith(
+            ["query"],
+            expect.objectContaining({uuid: "new"}),
+            [],
+        );
+        expect(await blockAndPageHashCache.getBlockHash("query")).not.toEqual(hash);
+    });
+    test("are rebuilt on every change unlike the other blocks", async () => {
+        await blockAndPageHashCache.getBlockHash("query");
+        await blockAndPageHashCache.getBlockHash("plain");
+        const queryCalls = getDependencyCalls(blocks.query.content);
+        const plainCalls = getDependencyCalls(blocks.plain.content);
+        await changeBlock(blocks.other);
+        await blockAndPageHashCache.getBlockHash("query");
+        await blockAndPageHashCache.getBlockHash("plain");
+        expect(getDependencyCalls(blocks.query.content)).toEqual(queryCalls + 1);
+        expect(getDependencyCalls(blocks.plain.content)).toEqual(plainCalls);
+    });
+});
@@ -0,0 +1,125 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {LogseqProxy} from "../../src/logseq/LogseqProxy";
+import {InheritanceResolver} from "../../src/logseq/InheritanceResolver";
+
+// Page 1 (a/b) is in namespace page 2 (a). Pages 3 and 4 are namespaces of each other.
+const pages = {
+    1: {id: 1, properties: {tags: "page-tag"}, namespace: {id: 2}},
+    2: {
+        id: 2,
+        properties: {
+            deck: "Namespace Deck",
+            tags: ["namespace-tag"],
+            useNamespaceAsDefaultDeck: true,
+        },
+    },
+    3: {id: 3, properties: {deck: "Cycle Deck"}, namespace: {id: 4}},
+    4: {id: 4, properties: {}, namespace: {id: 3}},
+};
+const blocks = [
+    {
+        id: 10,
+        uuid: "uuid-10",
+        page: 1,
+        parent: {id: 1},
+        properties: {deck: "Parent Deck", tags: ["parent"]},
+    },
+    {id: 11, uuid: "uuid-11", page: 1, parent: {id: 10}, properties: {tags: "child"}},
+    {id: 12, uuid: "uuid-12", page: 1, parent: {id: 1}, properties: {}},
+    {id: 13, uuid: "uuid-13", page: 1, parent: {id: 1}, properties: {disableAnkiSync: "true"}},
+    {
+        id: 14,
+        uuid: "uuid-14",
+        page: 1,
+        parent: {id: 13},
+        properties: {"disable-anki-sync": false},
+    },
+    {id: 15, uuid: "uuid-15", page: 1, parent: {id: 13}, properties: {}},
+    {id: 30, uuid: "uuid-30", page: 3, parent: {id: 3}, properties: {}},
+];
+
+const getQueriedIds = (query: string) =>
+    query
+        .match(/#\{([\d ]*)}/)[1]
+        .split(" ")
+        .map(Number);
+
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        DB: {
+            datascriptQuery: vi.fn(async (query: string) => {
+                const ids = getQueriedIds(query);
+                if (query.includes(":block/page"))
+                    return blocks
+                        .filter((block) => ids.includes(block.page))
+                        .map((block) => [block]);
+                return ids.map((id) => [pages[id]]);
+            }),
+        },
+        Editor: {
+            getBlock: vi.fn(async (uuid: string) => {
+                const block = blocks.find((block) => block.uuid == uuid.toLowerCase());
+                return block ? {...block, page: {id: block.page}} : null;
+            }),
+        },
+    },
+}));
+
+beforeEach(() => {
+    InheritanceResolver.clear();
+    vi.mocked(LogseqProxy.DB.datascriptQuery).mockClear();
+});
+
+describe("InheritanceResolver", () => {
+    test("inherits the nearest deck and the tags of all parents and namespace pages", async () => {
+        expect(await InheritanceResolver.resolve({uuid: "uuid-11", page: {id: 1}})).toEqual({
+            deck: "Parent Deck",
+            tags: ["child", "parent", "page-tag", "namespace-tag"],
+            useNamespaceAsDefaultDeck: true,
+            isAnkiSyncDisabled: null,
+        });
+    });
+    test("falls back to the namespace page properties", async () => {
+        expect(await InheritanceResolver.resolve({uuid: "uuid-12", page: {id: 1}})).toEqual({
+            deck: "Namespace Deck",
+            tags: ["page-tag", "namespace-tag"],
+            useNamespaceAsDefaultDeck: true,
+            isAnkiSyncDisabled: null,
+        });
+    });
+    test("inherits disable-anki-sync unless a nearer block overrides it", async () => {
+        const [disabledBlock, enabledChild, disabledChild] =
+            await InheritanceResolver.resolveAll([
+                {uuid: "uuid-13", page: {id: 1}},
+                {uuid: "uuid-14", page: {id: 1}},
+                {uuid: "uuid-15", page: {id: 1}},
+            ]);
+        expect(disabledBlock.isAnkiSyncDisabled).toBe(true);
+        expect(enabledChild.isAnkiSyncDisabled).toBe(false);
+        expect(disabledChild.isAnkiSyncDisabled).toBe(true);
+    });
+    test("gets the page of notes without page from the block", async () => {
+        expect((await InheritanceResolver.resolve({uuid: "UUID-11"})).deck).toEqual(
+            "Parent Deck",
+        );
+        expect(LogseqProxy.Editor.getBlock).toHaveBeenCalledWith("UUID-11");
+    });
+    test("resolves cyclic namespaces", async () => {
+        expect(
+            (await InheritanceResolver.resolve({uuid: "uuid-30", page: {id: 3}})).deck,
+        ).toEqual("Cycle Deck");
+    });
+    test("loads each page once until cleared", async () => {
+        await InheritanceResolver.resolveAll([
+            {uuid: "uuid-11", page: {id: 1}},
+            {uuid: "uuid-12", page: {id: 1}},
+        ]);
+        const queryCount = vi.mocked(LogseqProxy.DB.datascriptQuery).mock.calls.length;
+        expect(queryCount).toEqual(3); // Blocks of page 1, page 1 and namespace page 2
+        await InheritanceResolver.resolve({uuid: "uuid-13", page: {id: 1}});
+        expect(LogseqProxy.DB.datascriptQuery).toHaveBeenCalledTimes(queryCount);
+        InheritanceResolver.clear();
+        await InheritanceResolver.resolve({uuid: "uuid-13", page: {id: 1}});
+        expect(LogseqProxy.DB.datascriptQuery).toHaveBeenCalledTimes(queryCount * 2);
+    });
+});
@@ -0,0 +1,91 @@
+import {describe, expect, test, vi} from "vitest";
+
+vi.stubGlobal("logseq", {settings: {debug: []}});
+
+let tableBlock: any;
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        DB: {datascriptQueryBlocks: vi.fn(async () => [[tableBlock]])},
+        Editor: {
+            getPage: vi.fn(async () => ({id: 1, name: "vocabulary"})),
+            getBlock: vi.fn(async () => tableBlock),
+        },
+    },
+}));
+vi.mock("../../src/logseq/InheritanceResolver", () => ({
+    InheritanceResolver: {
+        resolveAll: vi.fn(async (notes) => notes.map(() => ({isAnkiSyncDisabled: null}))),
+    },
+}));
+vi.mock("../../src/notes/NoteUtils", () => ({
+    NoteUtils: {matchTagNamesWithTagIds: vi.fn(async () => [])},
+}));
+
+import {CardTableNote} from "../../src/notes/CardTableNote";
+
+const getNotes = async (table: string, properties = {}): Promise<CardTableNote[]> => {
+    tableBlock = {
+        uuid: "65a22d3c-954d-442b-8dca-4461fc209f84",
+        content: `#card-table\n${table}`,
+        format: "markdown",
+        properties,
+        page: {id: 1},
+        refs: [],
+    };
+    return CardTableNote.getNotesFromLogseqBlocks();
+};
+
+const table = `| Word | Meaning | Example |
+| --- | --- | --- |
+| chat | cat | Le chat dort |
+| chien | dog | Le chien court |
+|  |  |  |`;
+
+describe("CardTableNote", () => {
+    test("every non empty row of the table is a note", async () => {
+        const notes = await getNotes(table);
+        expect(notes.map((note) => note.row)).toEqual([
+            ["chat", "cat", "Le chat dort"],
+            ["chien", "dog", "Le chien court"],
+        ]);
+        expect(notes[0].headers).toEqual(["Word", "Meaning", "Example"]);
+    });
+    test("parses escaped pipes and org tables", async () => {
+        const notes = await getNotes(`| Front | Back |\n|-------+------|\n| a \\| b | c |`);
+        expect(notes.map((note) => note.row)).toEqual([["a | b", "c"]]);
+    });
+    test("keeps the note identity when rows are reordered or edited", async () => {
+        const types = (await getNotes(table)).map((note) => note.type);
+        const reorderedTable = `| Word | Meaning | Example |
+| --- | --- | --- |
+| chien | a dog | Le chien aboie |
+| chat | cat | Le chat dort |`;
+        expect((await getNotes(reorderedTable)).map((note) => note.type)).toEqual([
+            types[1],
+            types[0],
+        ]);
+        expect(types[0]).toMatch(/^card_table_[^-]+$/);
+    });
+    test("gives duplicate row keys different identities", async () => {
+        const notes = await getNotes(`| Word | Meaning |\n| --- | --- |\n| a | 1 |\n| a | 2 |`);
+        expect(notes[1].type).toEqual(`${notes[0].type}_2`);
+    });
+    test("uses the card-table-key column as the row key", async () => {
+        const notes = await getNotes(table, {cardTableKey: "Meaning"});
+        const notesKeyedByWord = await getNotes(table);
+        expect(notes[0].type).not.toEqual(notesKeyedByWord[0].type);
+        const renamedWordTable = table.replace("| chat |", "| le chat |");
+        expect((await getNotes(renamedWordTable, {cardTableKey: "Meaning"}))[0].type).toEqual(
+            notes[0].type,
+        );
+    });
+    test("picks the front and back columns using the card-table properties", async () => {
+        const [defaultNote] = await getNotes(table);
+        expect(defaultNote["getFrontAndBackColumns"]()).toEqual([[0], [1, 2]]);
+        const [note] = await getNotes(table, {
+            cardTableFront: "meaning, example",
+            cardTableBack: "Word",
+        });
+        expect(note["getFrontAndBackColumns"]()).toEqual([[1, 2], [0]]);
+    });
+});
@@ -0,0 +1,87 @@
+import {describe, expect, test, vi} from "vitest";
+import * as cheerio from "cheerio";
+
+vi.stubGlobal("logseq", {settings: {debug: []}});
+
+let mcqBlock: any;
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        DB: {datascriptQueryBlocks: vi.fn(async () => [[mcqBlock]])},
+        Editor: {
+            getPage: vi.fn(async () => ({id: 1, name: "quiz"})),
+            getBlock: vi.fn(async () => mcqBlock),
+        },
+    },
+}));
+vi.mock("../../src/logseq/InheritanceResolver", () => ({
+    InheritanceResolver: {
+        resolveAll: vi.fn(async (notes) => notes.map(() => ({isAnkiSyncDisabled: null}))),
+    },
+}));
+vi.mock("../../src/notes/NoteUtils", () => ({
+    NoteUtils: {matchTagNamesWithTagIds: vi.fn(async () => [])},
+}));
+vi.mock("../../src/logseq/LogseqToHtmlConverter", () => ({
+    convertToHTMLFile: vi.fn(async (content) => ({html: content, assets: new Set(), tags: []})),
+}));
+
+import {MultipleChoiceNote} from "../../src/notes/MultipleChoiceNote";
+
+const getCard = async (options: Array<{content: string; properties?: any}>) => {
+    mcqBlock = {
+        uuid: "65a22d3c-954d-442b-8dca-4461fc209f84",
+        content: "Which of these are planets? #mcq",
+        format: "markdown",
+        properties: {},
+        page: {id: 1},
+        refs: [],
+        children: options.map((option, index) => ({
+            uuid: `65a22d3c-954d-442b-8dca-4461fc20900${index}`,
+            format: "markdown",
+            properties: {},
+            ...option,
+        })),
+    };
+    const [note] = await MultipleChoiceNote.getNotesFromLogseqBlocks();
+    const $ = cheerio.load((await note.getClozedContentHTML()).html);
+    return {
+        note,
+        options: $(".mcq-option-content")
+            .map((i, option) => $(option).text().trim())
+            .get(),
+        answerKey: $(".hidden").text(),
+    };
+};
+
+describe("MultipleChoiceNote", () => {
+    test("every block is a single note", async () => {
+        const {note} = await getCard([{content: "Mars #correct"}, {content: "Moon"}]);
+        expect(note.type).toEqual("mcq");
+    });
+    test("children are the options and #correct marks the correct ones", async () => {
+        const {options, answerKey} = await getCard([
+            {content: "Mars #correct"},
+            {content: "Moon"},
+            {content: "Venus #[[correct]]"},
+        ]);
+        expect(options).toEqual(["Mars", "Moon", "Venus"]);
+        expect(answerKey).toEqual("{{c1::0,2}}");
+    });
+    test("the correct:: property marks the correct options", async () => {
+        const {answerKey} = await getCard([
+            {content: "Mars", properties: {correct: true}},
+            {content: "Moon", properties: {correct: "no"}},
+            {content: "Sun #correct", properties: {correct: "false"}},
+        ]);
+        expect(answerKey).toEqual("{{c1::0}}");
+    });
+    test("skips the empty options", async () => {
+        const {options, answerKey} = await getCard([
+            {content: ""},
+            {content: "#correct"},
+            {content: "Mars #correct"},
+        ]);
+        expect(options).toEqual(["Mars"]);
+        expect(answerKey).toEqual("{{c1::0}}");
+    });
+});
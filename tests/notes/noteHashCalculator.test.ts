@@ -0,0 +1,74 @@
+import {describe, expect, test, vi} from "vitest";
+
+vi.stubGlobal("logseq", {settings: {debug: []}});
+
+import NoteHashCalculator, {NOTE_CONTENT_SETTINGS} from "../../src/notes/NoteHashCalculator";
+
+// Conflicts are detected by comparing the fieldsHash stored in the Config field by the last sync
+// with the hash of the current field values of the anki note
+describe("getFieldsHash", () => {
+    const fields = {
+        "uuid-type": "65a22d3c-954d-442b-8dca-4461fc209f84-cloze",
+        uuid: "65a22d3c-954d-442b-8dca-4461fc209f84",
+        Text: "The {{c1::sun}} is a star",
+        Extra: "",
+        Breadcrumb: "Astronomy",
+    };
+    const fieldsHash = NoteHashCalculator.getFieldsHash(fields);
+
+    test("is unchanged when the note was not edited in anki", () => {
+        expect(NoteHashCalculator.getFieldsHash({...fields})).toEqual(fieldsHash);
+    });
+    test("ignores the Config field", () => {
+        const config = JSON.stringify({dependencyHash: "abc", fieldsHash});
+        expect(NoteHashCalculator.getFieldsHash({...fields, Config: config})).toEqual(
+            fieldsHash,
+        );
+    });
+    test("ignores the order of the fields", () => {
+        const {Text, ...otherFields} = fields;
+        expect(NoteHashCalculator.getFieldsHash({Text, ...otherFields})).toEqual(fieldsHash);
+    });
+    test("changes when a field was edited in anki", () => {
+        expect(
+            NoteHashCalculator.getFieldsHash({...fields, Text: "The {{c1::moon}} is a star"}),
+        ).not.toEqual(fieldsHash);
+        expect(NoteHashCalculator.getFieldsHash({...fields, Extra: "Note"})).not.toEqual(
+            fieldsHash,
+        );
+    });
+});
+
+describe("getSettingsToHash", () => {
+    const settings = {
+        breadcrumbDisplay: "Show Page name and parent blocks context",
+        defaultDeck: "Default",
+        mermaidDiagrams: "Show as code",
+    };
+    const settingsHash = JSON.stringify(NoteHashCalculator.getSettingsToHash(settings));
+
+    test("ignores the settings that don't change the note content", () => {
+        const otherSettings = {
+            ...settings,
+            ankiConnectSettingsHeading: null,
+            ankiConnectURL: "http://192.168.1.5:8765",
+            autoSync: true,
+            parseConcurrency: 8,
+            debug: ["LogseqToHtmlConverter.ts"],
+        };
+        expect(JSON.stringify(NoteHashCalculator.getSettingsToHash(otherSettings))).toEqual(
+            settingsHash,
+        );
+    });
+    test("keeps every setting that changes the note content", () => {
+        const contentSettings = Object.fromEntries(
+            NOTE_CONTENT_SETTINGS.map((key) => [key, `${key} value`]),
+        );
+        expect(NoteHashCalculator.getSettingsToHash(contentSettings)).toEqual(contentSettings);
+        expect(
+            JSON.stringify(
+                NoteHashCalculator.getSettingsToHash({...settings, defaultDeck: "Other"}),
+            ),
+        ).not.toEqual(settingsHash);
+    });
+});
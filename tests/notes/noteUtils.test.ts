@@ -0,0 +1,69 @@
+import {describe, expect, test, vi} from "vitest";
+
+vi.stubGlobal("logseq", {settings: {debug: []}});
+
+import {NoteUtils} from "../../src/notes/NoteUtils";
+
+describe("getComparableText", () => {
+    test("removes formatting, clozes and properties", () => {
+        expect(NoteUtils.getComparableText("The <b>{{c1::Sun}}</b> is a <i>star</i>")).toEqual(
+            "the sun is a star",
+        );
+        expect(
+            NoteUtils.getComparableText("The Sun is a star<br>card-group:: astronomy"),
+        ).toEqual("the sun is a star");
+    });
+    test("removes math delimiters", () => {
+        expect(NoteUtils.getComparableText("Sum: \\(a + b\\)")).toEqual(
+            "sum: a + b",
+        );
+    });
+});
+
+describe("matchSimilarNotes", () => {
+    const orphanedNote = {
+        ankiId: 1,
+        type: "cloze",
+        page: "astronomy",
+        text: "the sun is a star",
+    };
+
+    test("matches notes with similar text", () => {
+        const newNotes = [
+            {note: "a", type: "cloze", page: "other", text: "the sun is a big star"},
+            {note: "b", type: "cloze", page: "other", text: "mars is a planet"},
+        ];
+        expect(NoteUtils.matchSimilarNotes(newNotes, [orphanedNote])).toEqual([
+            {note: "a", ankiId: 1, similarity: expect.any(Number)},
+        ]);
+    });
+    test("does not match notes of another type or without text", () => {
+        const newNotes = [
+            {note: "a", type: "multiline_card", page: "astronomy", text: "the sun is a star"},
+            {note: "b", type: "cloze", page: "astronomy", text: ""},
+        ];
+        expect(NoteUtils.matchSimilarNotes(newNotes, [orphanedNote])).toEqual([]);
+    });
+    test("gives a bonus to notes of the same page", () => {
+        const text = "the sun is a yellow dwarf";
+        const newNote = {note: "a", type: "cloze", text};
+        const otherOrphanedNote = {...orphanedNote, text: "the sun is a dwarf star"};
+        expect(
+            NoteUtils.matchSimilarNotes([{...newNote, page: "other"}], [otherOrphanedNote]),
+        ).toEqual([]);
+        expect(
+            NoteUtils.matchSimilarNotes([{...newNote, page: "astronomy"}], [otherOrphanedNote]),
+        ).toHaveLength(1);
+    });
+    test("picks the best matches first and matches every note only once", () => {
+        const newNotes = [
+            {note: "a", type: "cloze", page: "other", text: "the sun is a star!"},
+            {note: "b", type: "cloze", page: "other", text: "the sun is a star"},
+        ];
+        const orphanedNotes = [orphanedNote, {...orphanedNote, ankiId: 2}];
+        expect(NoteUtils.matchSimilarNotes(newNotes, orphanedNotes)).toEqual([
+            {note: "b", ankiId: 1, similarity: 1},
+            {note: "a", ankiId: 2, similarity: expect.any(Number)},
+        ]);
+    });
+});
@@ -0,0 +1,96 @@
+import {describe, expect, test, vi} from "vitest";
+import * as cheerio from "cheerio";
+
+vi.stubGlobal("logseq", {settings: {debug: []}});
+
+let sequenceBlock: any;
+let sequencePage: any;
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        DB: {datascriptQueryBlocks: vi.fn(async () => [[sequenceBlock]])},
+        Editor: {
+            getPage: vi.fn(async () => sequencePage),
+            getBlock: vi.fn(async () => sequenceBlock),
+        },
+    },
+}));
+vi.mock("../../src/logseq/InheritanceResolver", () => ({
+    InheritanceResolver: {
+        resolveAll: vi.fn(async (notes) => notes.map(() => ({isAnkiSyncDisabled: null}))),
+    },
+}));
+vi.mock("../../src/notes/NoteUtils", () => ({
+    NoteUtils: {matchTagNamesWithTagIds: vi.fn(async () => [])},
+}));
+vi.mock("../../src/logseq/LogseqToHtmlConverter", () => ({
+    convertToHTMLFile: vi.fn(async (content) => ({html: content, assets: new Set(), tags: []})),
+}));
+
+import {SequenceNote} from "../../src/notes/SequenceNote";
+
+const getNotes = async (
+    items: string[],
+    properties = {},
+    pageProperties = {},
+): Promise<SequenceNote[]> => {
+    sequencePage = {id: 1, name: "history", properties: pageProperties};
+    sequenceBlock = {
+        uuid: "65a22d3c-954d-442b-8dca-4461fc209f84",
+        content: "Kings of France #sequence",
+        format: "markdown",
+        properties,
+        page: {id: 1},
+        refs: [],
+        children: items.map((content, index) => ({
+            uuid: `65a22d3c-954d-442b-8dca-4461fc20900${index}`,
+            content,
+            format: "markdown",
+        })),
+    };
+    return SequenceNote.getNotesFromLogseqBlocks();
+};
+
+// Items of the card: the hidden item is in a cloze and items outside of the context are "…"
+const getCardItems = async (note: SequenceNote): Promise<string[]> => {
+    const $ = cheerio.load((await note.getClozedContentHTML()).html);
+    return $("li.children")
+        .map((i, item) => $(item).text())
+        .get();
+};
+
+describe("SequenceNote", () => {
+    test("every non empty item is a note", async () => {
+        const notes = await getNotes(["Louis XIV", "", "Louis XV", "Louis XVI"]);
+        expect(notes.map((note) => note.itemIndex)).toEqual([0, 2, 3]);
+    });
+    test("keeps the note identity when items are reordered", async () => {
+        const types = (await getNotes(["Louis XIV", "Louis XV"])).map((note) => note.type);
+        const reorderedTypes = (await getNotes(["Louis XV", "Louis XIV"])).map(
+            (note) => note.type,
+        );
+        expect(reorderedTypes).toEqual([types[1], types[0]]);
+        expect(types[0]).toMatch(/^sequence_[^-]+$/);
+    });
+    test("gives duplicate items different identities", async () => {
+        const notes = await getNotes(["Louis XIV", "Louis XIV"]);
+        expect(notes[1].type).toEqual(`${notes[0].type}_2`);
+    });
+    test("shows the previous item as context by default", async () => {
+        const notes = await getNotes(["Louis XIV", "Louis XV", "Louis XVI"]);
+        expect(await getCardItems(notes[1])).toEqual(["Louis XIV", "{{c1::Louis XV}}", "…"]);
+        expect(await getCardItems(notes[0])).toEqual(["{{c1::Louis XIV}}", "…", "…"]);
+    });
+    test("reads the context size from block and page properties", async () => {
+        const items = ["Louis XIV", "Louis XV", "Louis XVI"];
+        let notes = await getNotes(items, {sequenceContextBefore: 0, sequenceContextAfter: 1});
+        expect(await getCardItems(notes[1])).toEqual(["…", "{{c1::Louis XV}}", "Louis XVI"]);
+        notes = await getNotes(items, {}, {sequenceContextBefore: 2});
+        expect(await getCardItems(notes[2])).toEqual([
+            "Louis XIV",
+            "Louis XV",
+            "{{c1::Louis XVI}}",
+        ]);
+        notes = await getNotes(items, {sequenceContextBefore: 0}, {sequenceContextBefore: 2});
+        expect(await getCardItems(notes[2])).toEqual(["…", "…", "{{c1::Louis XVI}}"]);
+    });
+});
@@ -0,0 +1,106 @@
+import {describe, expect, test, vi} from "vitest";
+
+let arrowBlock: any;
+vi.stubGlobal("logseq", {
+    settings: {debug: []},
+    DB: {datascriptQuery: vi.fn(async () => [[arrowBlock]])},
+});
+vi.mock("../../src/logseq/LogseqProxy", () => ({
+    LogseqProxy: {
+        Editor: {
+            getPage: vi.fn(async () => ({id: 1, name: "vocabulary"})),
+            getBlock: vi.fn(async () => arrowBlock),
+        },
+    },
+}));
+vi.mock("../../src/logseq/InheritanceResolver", () => ({
+    InheritanceResolver: {
+        resolveAll: vi.fn(async (notes) => notes.map(() => ({isAnkiSyncDisabled: null}))),
+    },
+}));
+vi.mock("../../src/notes/NoteUtils", async (importOriginal) => {
+    const {NoteUtils} = await importOriginal<typeof import("../../src/notes/NoteUtils")>();
+    NoteUtils.matchTagNamesWithTagIds = vi.fn(async () => []);
+    return {NoteUtils};
+});
+
+import {Note} from "../../src/notes/Note";
+import {SwiftArrowNote} from "../../src/notes/SwiftArrowNote";
+
+const UUID = "65a22d3c-954d-442b-8dca-4461fc209f84";
+const setAnkiNotes = (ankiNotes: Array<{noteId: number; uuidType: string; text: string}>) =>
+    Note.setAnkiNoteManager({
+        noteInfoMap: new Map(
+            ankiNotes.map(({noteId, uuidType, text}) => [
+                noteId,
+                {noteId, uuidType, fields: {Text: {value: text}}},
+            ]),
+        ),
+    } as any);
+
+const getNotes = async (content: string): Promise<SwiftArrowNote[]> => {
+    arrowBlock = {
+        uuid: UUID,
+        content,
+        format: "markdown",
+        properties: {},
+        page: {id: 1},
+        refs: [],
+    };
+    return SwiftArrowNote.getNotesFromLogseqBlocks();
+};
+
+describe("SwiftArrowNote", () => {
+    test("a block with one arrow line is a single note", async () => {
+        const notes = await getNotes("chat :-> cat");
+        expect(notes.map((note) => [note.type, note.line])).toEqual([["swift_arrow", null]]);
+    });
+    test("every arrow line of a block is a note", async () => {
+        const notes = await getNotes("chat :-> cat\nchien :<- dog\nnot an arrow line");
+        expect(notes.map((note) => note.line)).toEqual(["chat :-> cat", "chien :<- dog"]);
+    });
+    test("every line is keyed by its content", async () => {
+        const notes = await getNotes("chat :-> cat\nchien :<- dog");
+        expect(notes.map((note) => note.type)).toEqual([
+            expect.stringMatching(/^swift_arrow_[^-_]+$/),
+            expect.stringMatching(/^swift_arrow_[^-_]+$/),
+        ]);
+        const insertedNotes = await getNotes("oiseau :-> bird\nchat :-> cat\nchien :<- dog");
+        expect(insertedNotes.slice(1).map((note) => note.type)).toEqual(
+            notes.map((note) => note.type),
+        );
+    });
+    test("the line with the text of the single line block takes over its anki note", async () => {
+        setAnkiNotes([
+            {noteId: 1, uuidType: `${UUID}-swift_arrow`, text: "chien <b>:<-</b> {{c2::dog}}"},
+        ]);
+        const notes = await getNotes("chat :-> cat\nchien :<- dog");
+        expect(notes.map((note) => note.getAnkiId())).toEqual([null, 1]);
+    });
+    test("the anki note of the single line block is taken over only once", async () => {
+        setAnkiNotes([{noteId: 1, uuidType: `${UUID}-swift_arrow`, text: "chat :-> cat"}]);
+        const notes = await getNotes("chat :-> cat\nchien :-> dog\nchat :-> cat");
+        expect(notes.map((note) => note.getAnkiId())).toEqual([1, null, null]);
+        const [chatNote] = await getNotes("chat :-> cat\nchien :-> dog");
+        setAnkiNotes([
+            {noteId: 1, uuidType: `${UUID}-${chatNote.type}`, text: "chat :-> cat"},
+            {noteId: 2, uuidType: `${UUID}-swift_arrow`, text: "chien :-> dog"},
+        ]);
+        expect((await getNotes("chat :-> cat\nchien :-> cow"))[1].getAnkiId()).toBe(null);
+    });
+    test("editing a line keeps the identity of the other lines", async () => {
+        const types = (await getNotes("chat :-> cat\nchien :-> dog\noiseau :-> bird")).map(
+            (note) => note.type,
+        );
+        const editedTypes = (
+            await getNotes("chat :-> cat\nchien :-> a dog\nvache :-> cow\noiseau :-> bird")
+        ).map((note) => note.type);
+        expect(editedTypes[0]).toEqual(types[0]);
+        expect(editedTypes[1]).not.toEqual(types[1]);
+        expect(editedTypes[3]).toEqual(types[2]);
+    });
+    test("repeated lines get different identities", async () => {
+        const notes = await getNotes("chat :-> cat\nlapin :-> rabbit\nlapin :-> rabbit");
+        expect(notes[2].type).toEqual(`${notes[1].type}_2`);
+    });
+});